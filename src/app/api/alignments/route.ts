@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alignmentFinder, MAX_ALIGNMENT_DAYS, type CelestialBody } from '@/lib/alignment-finder'
+import { LocationDatabase } from '@/lib/location-database'
+import { addDays, getZonedDateKey, getZonedDay, isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+import { parseCoordinatesFromURL } from '@/lib/url-utils'
+
+const locationDatabase = new LocationDatabase()
+
+const BODIES: CelestialBody[] = ['sun', 'moon']
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const camera = parseCoordinatesFromURL(searchParams.get('camera') || '')
+    const subject = parseCoordinatesFromURL(searchParams.get('subject') || '')
+    const subjectHeight = parseFloat(searchParams.get('subjectHeight') || '0')
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    const tz = searchParams.get('tz')
+    const bodies = (searchParams.get('bodies') || 'sun,moon').split(',')
+    const tolerance = parseFloat(searchParams.get('tolerance') || '0.5')
+
+    if (!camera || !subject || Math.abs(camera.lat) > 90 || Math.abs(camera.lng) > 180 ||
+        Math.abs(subject.lat) > 90 || Math.abs(subject.lng) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'camera and subject must be given as lat,lon' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(subjectHeight) || subjectHeight < 0 || subjectHeight > 10000) {
+      return NextResponse.json(
+        { success: false, error: 'subjectHeight must be a number of meters between 0 and 10000' },
+        { status: 400 }
+      )
+    }
+
+    if ((from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) || (to && !/^\d{4}-\d{2}-\d{2}$/.test(to))) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    if (bodies.some(body => !BODIES.includes(body as CelestialBody))) {
+      return NextResponse.json(
+        { success: false, error: `bodies must be a comma-separated list of: ${BODIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(tolerance) || tolerance <= 0 || tolerance > 5) {
+      return NextResponse.json(
+        { success: false, error: 'tolerance must be between 0 and 5 degrees' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(camera.lat, camera.lng) || 'UTC'
+    const start = from || getZonedDateKey(new Date(), timezone)
+    const end = to || addDays(start, 30)
+
+    // Each day scans both bodies every couple of minutes, so long ranges would hold up the server
+    if (end < start || end > addDays(start, MAX_ALIGNMENT_DAYS - 1)) {
+      return NextResponse.json(
+        { success: false, error: `to must be on or after from and cover at most ${MAX_ALIGNMENT_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    const matches = alignmentFinder.findAlignments(
+      { lat: camera.lat, lon: camera.lng },
+      { lat: subject.lat, lon: subject.lng, height: subjectHeight },
+      getZonedDay(start, timezone).start,
+      getZonedDay(end, timezone).end,
+      { bodies: bodies as CelestialBody[], azimuthTolerance: tolerance, altitudeTolerance: tolerance }
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        matches: toZonedJSON(matches, timezone)
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=86400'
+      }
+    })
+  } catch (error) {
+    console.error('Alignments API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to find alignments' },
+      { status: 500 }
+    )
+  }
+}
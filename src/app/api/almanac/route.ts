@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { solarAlmanacGenerator, type SolarAlmanac } from '@/lib/solar-almanac'
+import { LIGHT_BAND_PRESETS, type LightBandPreset } from '@/lib/sun-calculator'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+import { parseObserverHeight } from '@/lib/url-utils'
+
+const locationDatabase = new LocationDatabase()
+
+// A year takes over a second to compute, so keep recent almanacs in memory
+const almanacCache = new Map<string, SolarAlmanac>()
+const MAX_CACHED_ALMANACS = 50
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear()), 10)
+    const tz = searchParams.get('tz')
+    const height = searchParams.get('height')
+    const bands = searchParams.get('bands') || 'standard'
+    const format = searchParams.get('format') || 'json'
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(year) || year < 1900 || year > 2100) {
+      return NextResponse.json(
+        { success: false, error: 'year must be between 1900 and 2100' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    const observerHeight = parseObserverHeight(height)
+    if (height && observerHeight === null) {
+      return NextResponse.json(
+        { success: false, error: 'height must be a number of meters between 0 and 10000' },
+        { status: 400 }
+      )
+    }
+
+    if (!Object.hasOwn(LIGHT_BAND_PRESETS, bands)) {
+      return NextResponse.json(
+        { success: false, error: `bands must be one of: ${Object.keys(LIGHT_BAND_PRESETS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { success: false, error: 'format must be json or csv' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const cacheKey = `${lat.toFixed(4)}_${lon.toFixed(4)}_${year}_${timezone}_${observerHeight ?? 0}_${bands}`
+    let almanac = almanacCache.get(cacheKey)
+
+    if (!almanac) {
+      almanac = solarAlmanacGenerator.generate(lat, lon, year, {
+        timezone,
+        observerHeight: observerHeight ?? undefined,
+        bands: bands as LightBandPreset
+      })
+
+      if (almanacCache.size >= MAX_CACHED_ALMANACS) {
+        almanacCache.delete(almanacCache.keys().next().value!)
+      }
+      almanacCache.set(cacheKey, almanac)
+    }
+
+    if (format === 'csv') {
+      return new NextResponse(solarAlmanacGenerator.toCSV(almanac), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="almanac-${lat.toFixed(3)}_${lon.toFixed(3)}-${year}.csv"`,
+          'Cache-Control': 'public, max-age=86400'
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toZonedJSON(almanac, timezone)
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=86400'
+      }
+    })
+  } catch (error) {
+    console.error('Almanac API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate almanac' },
+      { status: 500 }
+    )
+  }
+}
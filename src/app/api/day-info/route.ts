@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sunCalculator, LIGHT_BAND_PRESETS, type LightBandPreset } from '@/lib/sun-calculator'
+import { demTileReader } from '@/lib/dem-tile-reader'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+import { parseObserverHeight } from '@/lib/url-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const date = searchParams.get('date')
+    const tz = searchParams.get('tz')
+    const height = searchParams.get('height')
+    const bands = searchParams.get('bands') || 'standard'
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Date must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    const observerHeight = parseObserverHeight(height)
+    if (height && observerHeight === null) {
+      return NextResponse.json(
+        { success: false, error: 'height must be a number of meters between 0 and 10000' },
+        { status: 400 }
+      )
+    }
+
+    if (!Object.hasOwn(LIGHT_BAND_PRESETS, bands)) {
+      return NextResponse.json(
+        { success: false, error: `bands must be one of: ${Object.keys(LIGHT_BAND_PRESETS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    // Sunrise and sunset over the local terrain, where elevation tiles cover the location
+    const profile = await demTileReader.getHorizonProfile(lat, lon, { observerHeight: observerHeight ?? undefined })
+    const dayInfo = sunCalculator.getDayInfo(date || new Date(), lat, lon, {
+      timezone,
+      observerHeight: observerHeight ?? undefined,
+      bands: bands as LightBandPreset,
+      horizonProfile: profile.hasData ? profile : undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: toZonedJSON(dayInfo, timezone)
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=3600'
+      }
+    })
+  } catch (error) {
+    console.error('Day info API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to calculate day information' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { eclipseCalculator } from '@/lib/eclipse-calculator'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const from = searchParams.get('from')
+    const count = parseInt(searchParams.get('count') || '10', 10)
+    const includeInvisible = searchParams.get('all') === 'true'
+    const tz = searchParams.get('tz')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      return NextResponse.json(
+        { success: false, error: 'from must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(count) || count < 1 || count > 50) {
+      return NextResponse.json(
+        { success: false, error: 'count must be between 1 and 50' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const eclipses = eclipseCalculator.getUpcomingEclipses(lat, lon, from ? new Date(`${from}T00:00:00Z`) : new Date(), {
+      count,
+      includeInvisible
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        eclipses: toZonedJSON(eclipses, timezone)
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=86400'
+      }
+    })
+  } catch (error) {
+    console.error('Eclipse API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to calculate eclipses' },
+      { status: 500 }
+    )
+  }
+}
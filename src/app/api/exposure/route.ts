@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exposureCalculator, EXPOSURE_PRESETS } from '@/lib/exposure-calculator'
+import { LocationDatabase } from '@/lib/location-database'
+import { getZonedDateKey, isValidTimeZone, toZonedJSON, zonedTimeToUtc } from '@/lib/timezone-utils'
+
+const locationDatabase = new LocationDatabase()
+
+// Optional weather readings; a missing value leaves the model on clear-sky defaults
+function parseReading(value: string | null, min: number, max: number): number | undefined | null {
+  if (value === null || value === '') return undefined
+  const reading = parseFloat(value)
+  return isNaN(reading) || reading < min || reading > max ? null : reading
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const date = searchParams.get('date')
+    const time = searchParams.get('time')
+    const tz = searchParams.get('tz')
+    const clouds = parseReading(searchParams.get('clouds'), 0, 100)
+    const humidity = parseReading(searchParams.get('humidity'), 0, 100)
+    const visibility = parseReading(searchParams.get('visibility'), 0, 100)
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Date must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (time && !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+      return NextResponse.json(
+        { success: false, error: 'time must be a local time in format HH:MM' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    if (clouds === null || humidity === null || visibility === null) {
+      return NextResponse.json(
+        { success: false, error: 'clouds and humidity must be 0-100 percent and visibility 0-100 km' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+
+    let instant = new Date()
+    if (date || time) {
+      const [year, month, day] = (date || getZonedDateKey(instant, timezone)).split('-').map(Number)
+      const [hour, minute] = (time || '12:00').split(':').map(Number)
+      instant = zonedTimeToUtc(year, month, day, hour, minute, timezone)
+    }
+
+    const recommendation = exposureCalculator.getExposure(instant, lat, lon, { clouds, humidity, visibility })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        ...toZonedJSON(recommendation, timezone),
+        presetLabels: Object.fromEntries(
+          Object.entries(EXPOSURE_PRESETS).map(([name, preset]) => [name, preset.label])
+        )
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('Exposure API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to calculate exposure' },
+      { status: 500 }
+    )
+  }
+}
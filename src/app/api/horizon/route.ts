@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { demTileReader } from '@/lib/dem-tile-reader'
+import { sunCalculator } from '@/lib/sun-calculator'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const date = searchParams.get('date')
+    const tz = searchParams.get('tz')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Date must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    // Define "the day" in the location's own timezone, not the server's
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const profile = await demTileReader.getHorizonProfile(lat, lon)
+
+    // A flat stand-in horizon would pass for real terrain
+    if (!profile.hasData) {
+      return NextResponse.json(
+        { success: false, error: 'No elevation data is available for this location' },
+        { status: 404 }
+      )
+    }
+
+    const apparent = sunCalculator.getApparentSunTimes(date || new Date(), lat, lon, profile, { timezone })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        profile,
+        apparent: toZonedJSON(apparent, timezone)
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=86400'
+      }
+    })
+  } catch (error) {
+    console.error('Horizon API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to build horizon profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { lightModel, type LightConditions } from '@/lib/light-model'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const date = searchParams.get('date')
+    const tz = searchParams.get('tz')
+    const step = parseInt(searchParams.get('step') || '10', 10)
+    const clouds = searchParams.get('clouds')
+    const humidity = searchParams.get('humidity')
+    const visibility = searchParams.get('visibility')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Date must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(step) || step < 1 || step > 60) {
+      return NextResponse.json(
+        { success: false, error: 'step must be between 1 and 60 minutes' },
+        { status: 400 }
+      )
+    }
+
+    // Optional weather, as reported by /api/weather: cloud cover and humidity in percent, visibility in km
+    const weather: LightConditions = {}
+    if (clouds) weather.clouds = parseFloat(clouds)
+    if (humidity) weather.humidity = parseFloat(humidity)
+    if (visibility) weather.visibility = parseFloat(visibility)
+
+    const percent = (value: number | undefined) => value === undefined || (value >= 0 && value <= 100)
+    if (!percent(weather.clouds) || !percent(weather.humidity) ||
+        (weather.visibility !== undefined && !(weather.visibility >= 0))) {
+      return NextResponse.json(
+        { success: false, error: 'clouds and humidity must be 0 to 100 % and visibility a positive number of km' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const curve = lightModel.getLightCurve(date || new Date(), lat, lon, {
+      timezone,
+      stepMinutes: step,
+      weather
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: toZonedJSON(curve, timezone)
+    }, {
+      headers: {
+        // Curves for reported weather go stale with it
+        'Cache-Control': clouds || humidity || visibility ? 'public, max-age=600' : 'public, max-age=3600'
+      }
+    })
+  } catch (error) {
+    console.error('Light curve API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to calculate light curve' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { milkyWayPlanner } from '@/lib/milky-way-planner'
+import { LocationDatabase } from '@/lib/location-database'
+import { addDays, getZonedDateKey, isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    const tz = searchParams.get('tz')
+    const minAltitude = parseFloat(searchParams.get('minAltitude') || '10')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if ((from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) || (to && !/^\d{4}-\d{2}-\d{2}$/.test(to))) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(minAltitude) || minAltitude < 0 || minAltitude > 60) {
+      return NextResponse.json(
+        { success: false, error: 'minAltitude must be between 0 and 60 degrees' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const start = from || getZonedDateKey(new Date(), timezone)
+    const end = to || addDays(start, 30)
+
+    if (end < start || end > addDays(start, 366)) {
+      return NextResponse.json(
+        { success: false, error: 'to must be on or after from and at most a year later' },
+        { status: 400 }
+      )
+    }
+
+    const windows = milkyWayPlanner.findWindows(lat, lon, start, end, { timezone, minAltitude })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        from: start,
+        to: end,
+        minAltitude,
+        windows: toZonedJSON(windows, timezone)
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=21600'
+      }
+    })
+  } catch (error) {
+    console.error('Milky Way API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to plan Milky Way windows' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rainbowPredictor } from '@/lib/rainbow-predictor'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const tz = searchParams.get('tz')
+    const threshold = parseFloat(searchParams.get('threshold') || '0.3')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+      return NextResponse.json(
+        { success: false, error: 'threshold must be between 0 and 1' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const windows = await rainbowPredictor.predict(lat, lon, { threshold })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        windows: toZonedJSON(windows, timezone)
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=600'
+      }
+    })
+  } catch (error) {
+    console.error('Rainbow API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to predict rainbow windows' },
+      { status: 500 }
+    )
+  }
+}
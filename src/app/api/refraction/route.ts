@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sunCalculator, type AtmosphericConditions, type EventAtmospheres } from '@/lib/sun-calculator'
+import { weatherService } from '@/lib/weather-service'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+import { parseObserverHeight } from '@/lib/url-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const date = searchParams.get('date')
+    const tz = searchParams.get('tz')
+    const height = searchParams.get('height')
+    const temp = searchParams.get('temp')
+    const pressure = searchParams.get('pressure')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Date must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    const observerHeight = parseObserverHeight(height)
+    if (height && observerHeight === null) {
+      return NextResponse.json(
+        { success: false, error: 'height must be a number of meters between 0 and 10000' },
+        { status: 400 }
+      )
+    }
+
+    if (!temp !== !pressure) {
+      return NextResponse.json(
+        { success: false, error: 'temp and pressure must be given together' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const options = {
+      timezone,
+      observerHeight: observerHeight ?? undefined
+    }
+
+    let atmosphere: AtmosphericConditions | EventAtmospheres
+    let source: 'query' | 'weather'
+    if (temp && pressure) {
+      atmosphere = { temperature: parseFloat(temp), pressure: parseFloat(pressure) }
+      source = 'query'
+
+      if (isNaN(atmosphere.temperature) || atmosphere.temperature < -90 || atmosphere.temperature > 60 ||
+          isNaN(atmosphere.pressure) || atmosphere.pressure < 300 || atmosphere.pressure > 1100) {
+        return NextResponse.json(
+          { success: false, error: 'temp must be -90 to 60 °C and pressure 300 to 1100 hPa' },
+          { status: 400 }
+        )
+      }
+    } else {
+      // The forecast air at each event; the forecast step is far coarser than the refraction shift
+      const { sunrise, sunset } = sunCalculator.getSunTimes(date || new Date(), lat, lon, options)
+      const [atSunrise, atSunset] = await Promise.all([
+        weatherService.getAtmosphere(lat, lon, sunrise ?? undefined),
+        weatherService.getAtmosphere(lat, lon, sunset ?? undefined)
+      ])
+      atmosphere = { sunrise: atSunrise, sunset: atSunset }
+      source = 'weather'
+    }
+
+    const times = sunCalculator.getRefractedSunTimes(date || new Date(), lat, lon, atmosphere, options)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        source,
+        ...toZonedJSON(times, timezone)
+      }
+    }, {
+      headers: {
+        'Cache-Control': source === 'query' ? 'public, max-age=3600' : 'public, max-age=600'
+      }
+    })
+  } catch (error) {
+    console.error('Refraction API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to calculate refraction-corrected sun times' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { shadowPlanner } from '@/lib/shadow-planner'
+
+// Long enough for a whole day; at one-minute steps that stays under the planner's sample limit
+const MAX_RANGE_MS = 24 * 60 * 60 * 1000
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const objectHeight = parseFloat(searchParams.get('objectHeight') || '')
+    const start = new Date(searchParams.get('start') || '')
+    const end = new Date(searchParams.get('end') || '')
+    const step = parseInt(searchParams.get('step') || '15', 10)
+    const maxLength = parseFloat(searchParams.get('maxLength') || '1000')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!(objectHeight > 0) || objectHeight > 1000) {
+      return NextResponse.json(
+        { success: false, error: 'objectHeight must be a positive number of meters, at most 1000' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'start and end must be ISO 8601 times' },
+        { status: 400 }
+      )
+    }
+
+    if (end < start || end.getTime() - start.getTime() > MAX_RANGE_MS) {
+      return NextResponse.json(
+        { success: false, error: 'end must be on or after start and at most 24 hours later' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(step) || step < 1 || step > 60) {
+      return NextResponse.json(
+        { success: false, error: 'step must be between 1 and 60 minutes' },
+        { status: 400 }
+      )
+    }
+
+    if (!(maxLength > 0) || maxLength > 10000) {
+      return NextResponse.json(
+        { success: false, error: 'maxLength must be a positive number of meters, at most 10000' },
+        { status: 400 }
+      )
+    }
+
+    const samples = shadowPlanner.getShadowSeries(lat, lon, objectHeight, start, end, { stepMinutes: step, maxLength })
+
+    return NextResponse.json({
+      success: true,
+      data: shadowPlanner.toGeoJSON(samples, lat, lon)
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=86400'
+      }
+    })
+  } catch (error) {
+    console.error('Shadows API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to calculate shadows' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { streetAlignmentFinder, STREET_GRID_PRESETS } from '@/lib/street-alignment'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+import { parseCoordinatesFromURL } from '@/lib/url-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const locationId = searchParams.get('location')
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear()), 10)
+    const tz = searchParams.get('tz')
+    const from = parseCoordinatesFromURL(searchParams.get('from') || '')
+    const to = parseCoordinatesFromURL(searchParams.get('to') || '')
+
+    let lat = parseFloat(searchParams.get('lat') || '')
+    let lon = parseFloat(searchParams.get('lon') || '')
+    let bearing = parseFloat(searchParams.get('bearing') || '')
+    const horizonAltitude = parseFloat(searchParams.get('horizon') || '0')
+
+    if (locationId) {
+      const location = locationDatabase.getById(locationId)
+      if (!location) {
+        return NextResponse.json(
+          { success: false, error: `Unknown location: ${locationId}` },
+          { status: 404 }
+        )
+      }
+      lat = location.lat
+      lon = location.lon
+      if (isNaN(bearing) && STREET_GRID_PRESETS[locationId]) {
+        bearing = STREET_GRID_PRESETS[locationId].bearing
+      }
+    }
+
+    // Two points along the street give both its bearing and, without a location, its position
+    if (from && to) {
+      const axis = streetAlignmentFinder.getStreetAxis({ lat: from.lat, lon: from.lng }, { lat: to.lat, lon: to.lng })
+      bearing = axis.bearing
+      if (!locationId && isNaN(lat)) {
+        lat = from.lat
+        lon = from.lng
+      }
+    }
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'A location id, lat and lon, or from and to points are required' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(bearing) || bearing < 0 || bearing >= 360) {
+      return NextResponse.json(
+        { success: false, error: 'bearing must be between 0 and 360, or pass from=lat,lon&to=lat,lon' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(horizonAltitude) || horizonAltitude < -5 || horizonAltitude > 30) {
+      return NextResponse.json(
+        { success: false, error: 'horizon must be an altitude in degrees between -5 and 30' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(year) || year < 1900 || year > 2100) {
+      return NextResponse.json(
+        { success: false, error: 'year must be between 1900 and 2100' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const result = streetAlignmentFinder.findAlignments(lat, lon, bearing, year, { horizonAltitude, timezone })
+
+    return NextResponse.json({
+      success: true,
+      data: toZonedJSON(result, timezone)
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=86400'
+      }
+    })
+  } catch (error) {
+    console.error('Street alignment API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to find street alignments' },
+      { status: 500 }
+    )
+  }
+}
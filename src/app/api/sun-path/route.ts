@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LIGHT_BAND_PRESETS, type LightBandPreset } from '@/lib/sun-calculator'
+import { sunPathGeometryGenerator } from '@/lib/sun-path-geometry'
+import { demTileReader } from '@/lib/dem-tile-reader'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone } from '@/lib/timezone-utils'
+import { parseObserverHeight } from '@/lib/url-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const date = searchParams.get('date')
+    const tz = searchParams.get('tz')
+    const height = searchParams.get('height')
+    const bands = searchParams.get('bands') || 'standard'
+    const radius = parseFloat(searchParams.get('radius') || '500')
+    const arcStep = parseFloat(searchParams.get('arcStep') || '2')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Date must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    const observerHeight = parseObserverHeight(height)
+    if (height && observerHeight === null) {
+      return NextResponse.json(
+        { success: false, error: 'height must be a number of meters between 0 and 10000' },
+        { status: 400 }
+      )
+    }
+
+    if (!Object.hasOwn(LIGHT_BAND_PRESETS, bands)) {
+      return NextResponse.json(
+        { success: false, error: `bands must be one of: ${Object.keys(LIGHT_BAND_PRESETS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!(radius > 0) || radius > 100000) {
+      return NextResponse.json(
+        { success: false, error: 'radius must be a positive number of meters, at most 100000' },
+        { status: 400 }
+      )
+    }
+
+    if (!(arcStep >= 0.5) || arcStep > 45) {
+      return NextResponse.json(
+        { success: false, error: 'arcStep must be between 0.5 and 45 degrees' },
+        { status: 400 }
+      )
+    }
+
+    // Same day and terrain as /api/day-info, so the path matches the times shown beside the map
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const profile = await demTileReader.getHorizonProfile(lat, lon, { observerHeight: observerHeight ?? undefined })
+    const geometry = sunPathGeometryGenerator.getSunPathGeoJSON(date || new Date(), lat, lon, {
+      timezone,
+      observerHeight: observerHeight ?? undefined,
+      bands: bands as LightBandPreset,
+      horizonProfile: profile.hasData ? profile : undefined,
+      radius,
+      arcStep
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        geometry
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=3600'
+      }
+    })
+  } catch (error) {
+    console.error('Sun path API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to calculate sun path' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { weatherService } from '@/lib/weather-service'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const tz = searchParams.get('tz')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const weather = await weatherService.getWeather(lat, lon)
+
+    return NextResponse.json({
+      success: true,
+      data: toZonedJSON({
+        timezone,
+        provider: weather.provider,
+        fetchedAt: weather.fetchedAt,
+        forecast: weather.forecast
+      }, timezone)
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=600'
+      }
+    })
+  } catch (error) {
+    console.error('Weather forecast API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch weather forecast' },
+      { status: 500 }
+    )
+  }
+}
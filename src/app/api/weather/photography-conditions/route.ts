@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { weatherService } from '@/lib/weather-service'
+import { LocationDatabase } from '@/lib/location-database'
+import { isValidTimeZone, toZonedJSON } from '@/lib/timezone-utils'
+
+const locationDatabase = new LocationDatabase()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = parseFloat(searchParams.get('lat') || '')
+    const lon = parseFloat(searchParams.get('lon') || '')
+    const date = searchParams.get('date')
+    const tz = searchParams.get('tz')
+
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Valid lat and lon parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Date must be in format YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (tz && !isValidTimeZone(tz)) {
+      return NextResponse.json(
+        { success: false, error: 'tz must be an IANA timezone, e.g. Europe/Paris' },
+        { status: 400 }
+      )
+    }
+
+    const timezone = tz || locationDatabase.getTimezone(lat, lon) || 'UTC'
+    const conditions = await weatherService.getPhotographyConditions(lat, lon, date || new Date(), { timezone })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        ...toZonedJSON(conditions, timezone)
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=600'
+      }
+    })
+  } catch (error) {
+    console.error('Photography conditions API error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to assess photography conditions' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,15 @@
 import type { Metadata } from "next"
 import { redirect } from "next/navigation"
-import { parseCoordinatesFromURL, parseDateFromURL, parseEnhancedURL, parseLocationSlug, validateURL, sanitizeURLParams } from "@/lib/url-utils"
+import { parseCoordinatesFromURL, parseDateFromURL, parseEnhancedURL, parseLocationSlug, parseObserverHeight, validateURL, sanitizeURLParams } from "@/lib/url-utils"
 import GoldenHourMainPage from "@/app/page"
 
 interface PageProps {
   params: {
     params: string[]
   }
+  searchParams?: {
+    height?: string
+  }
 }
 
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
@@ -53,8 +56,9 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
   }
 }
 
-export default async function GoldenHourPage({ params }: PageProps) {
+export default async function GoldenHourPage({ params, searchParams }: PageProps) {
   const { params: urlParams } = await params
+  const observerHeight = parseObserverHeight((await searchParams)?.height)
   
   console.log("Dynamic route handler called with urlParams:", urlParams)
 
@@ -90,6 +94,10 @@ export default async function GoldenHourPage({ params }: PageProps) {
     if (parsedDate && date) {
       searchParamsObject.dateParam = date
     }
+
+    if (observerHeight) {
+      searchParamsObject.height = observerHeight.toString()
+    }
     
     return <GoldenHourMainPage searchParams={searchParamsObject} />
   }
@@ -106,6 +114,10 @@ export default async function GoldenHourPage({ params }: PageProps) {
     if (parsedDate && date) {
       searchParamsObject.dateParam = date
     }
+
+    if (observerHeight) {
+      searchParamsObject.height = observerHeight.toString()
+    }
     
     return <GoldenHourMainPage searchParams={searchParamsObject} />
   }
@@ -0,0 +1,157 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { LocationDatabase } from "@/lib/location-database"
+import { streetAlignmentFinder, STREET_GRID_PRESETS, type StreetAlignment } from "@/lib/street-alignment"
+
+const locationDatabase = new LocationDatabase()
+
+interface PageProps {
+  params: {
+    location: string
+  }
+  searchParams?: {
+    bearing?: string
+    horizon?: string
+    year?: string
+  }
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { location: locationId } = await params
+  const location = locationDatabase.getById(locationId)
+
+  if (!location) {
+    return { title: "Street Alignment Planner" }
+  }
+
+  const title = `Sun & Street Alignment Dates in ${location.city} | Photography Calculator`
+  const description = `Find the days when the rising or setting sun lines up with the streets of ${location.city}, ${location.country} — plan your own "Manhattanhenge" shot.`
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+    },
+  }
+}
+
+export default async function StreetAlignmentPage({ params, searchParams }: PageProps) {
+  const { location: locationId } = await params
+  const query = (await searchParams) || {}
+  const location = locationDatabase.getById(locationId)
+
+  if (!location) {
+    notFound()
+  }
+
+  const preset = STREET_GRID_PRESETS[location.id]
+  const bearing = query.bearing ? Number.parseFloat(query.bearing) : preset?.bearing ?? null
+  const horizonAltitude = query.horizon ? Number.parseFloat(query.horizon) : 0
+  const year = query.year ? Number.parseInt(query.year, 10) : new Date().getFullYear()
+
+  const valid =
+    bearing !== null && !isNaN(bearing) && bearing >= 0 && bearing < 360 &&
+    !isNaN(horizonAltitude) && horizonAltitude >= -5 && horizonAltitude <= 30 &&
+    !isNaN(year) && year >= 1900 && year <= 2100
+
+  const result = valid
+    ? streetAlignmentFinder.findAlignments(location.lat, location.lon, bearing, year, {
+        horizonAltitude,
+        timezone: location.timezone,
+      })
+    : null
+
+  const formatDate = (alignment: StreetAlignment) =>
+    alignment.time.toLocaleDateString("en-US", { weekday: "short", month: "long", day: "numeric", timeZone: location.timezone })
+  const formatTime = (alignment: StreetAlignment) =>
+    alignment.time.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", timeZone: location.timezone })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-rose-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container mx-auto px-4 py-8 space-y-8 max-w-3xl">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl md:text-5xl font-bold bg-gradient-to-r from-amber-600 via-orange-500 to-rose-500 bg-clip-text text-transparent">
+            Street Alignment in {location.city}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Days when the sun rises or sets straight down a street
+          </p>
+        </div>
+
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>Street</CardTitle>
+            <CardDescription>
+              {preset ? `Defaults to the ${preset.label}. ` : ""}
+              Enter the street&apos;s compass bearing and the altitude of the skyline at its end.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form method="get" className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+              <label className="text-sm space-y-1">
+                <span className="block font-medium">Bearing (°)</span>
+                <input name="bearing" type="number" min="0" max="359.9" step="0.1" defaultValue={bearing ?? ""} required className="w-full rounded-md border px-3 py-2" />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="block font-medium">Skyline (°)</span>
+                <input name="horizon" type="number" min="-5" max="30" step="0.1" defaultValue={horizonAltitude} className="w-full rounded-md border px-3 py-2" />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="block font-medium">Year</span>
+                <input name="year" type="number" min="1900" max="2100" defaultValue={year} className="w-full rounded-md border px-3 py-2" />
+              </label>
+              <button type="submit" className="rounded-md bg-orange-500 px-4 py-2 font-medium text-white hover:bg-orange-600">
+                Find dates
+              </button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {bearing !== null && !valid && (
+          <p className="text-center text-red-600">
+            Bearing must be 0–360°, skyline −5–30° and year 1900–2100.
+          </p>
+        )}
+
+        {result && (
+          <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle>{year} alignments</CardTitle>
+              <CardDescription>
+                Looking {result.axis.bearing.toFixed(1)}° at sunrise and {(result.axis.bearing + 180).toFixed(1)}° at sunset
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {result.alignments.length === 0 ? (
+                <p className="text-gray-600 dark:text-gray-300">
+                  The sun never rises or sets along this street in {year}.
+                </p>
+              ) : (
+                <ul className="divide-y">
+                  {result.alignments.map(alignment => (
+                    <li key={`${alignment.event}-${alignment.disk}-${alignment.date}`} className="flex items-center justify-between py-3 gap-4">
+                      <div>
+                        <div className="font-medium">{formatDate(alignment)}</div>
+                        <div className="text-sm text-gray-600 dark:text-gray-300">
+                          {alignment.event === "sunrise" ? "Sunrise" : "Sunset"} at {formatTime(alignment)} · azimuth {alignment.azimuth.toFixed(1)}°
+                        </div>
+                      </div>
+                      <Badge variant="secondary">
+                        {alignment.disk === "full" ? "Full sun" : "Half sun"}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
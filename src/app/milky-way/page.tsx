@@ -0,0 +1,110 @@
+import type { Metadata } from "next"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { milkyWayPlanner, type MilkyWaySeason, type MilkyWayWindow } from "@/lib/milky-way-planner"
+
+// Reading ?year= makes the page render per request, and a year of nights for every location takes
+// a couple of seconds. The locations are fixed, so each year's season only has to be built once.
+const seasonCache = new Map<number, MilkyWaySeason[]>()
+const MAX_CACHED_SEASONS = 10
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+const QUALITY_COLORS: Record<MilkyWayWindow["quality"], string> = {
+  excellent: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-200",
+  good: "bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-200",
+  fair: "bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200",
+  poor: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400",
+}
+
+interface PageProps {
+  searchParams?: {
+    year?: string
+  }
+}
+
+export const metadata: Metadata = {
+  title: "Milky Way Season Planner | Photography Calculator",
+  description: "The best moonless nights each month to photograph the Milky Way's galactic core, for every city in our database.",
+}
+
+export default async function MilkyWaySeasonPage({ searchParams }: PageProps) {
+  const query = (await searchParams) || {}
+  const requestedYear = query.year ? Number.parseInt(query.year, 10) : new Date().getFullYear()
+  const year = !isNaN(requestedYear) && requestedYear >= 1900 && requestedYear <= 2100 ? requestedYear : new Date().getFullYear()
+  let season = seasonCache.get(year)
+  if (!season) {
+    season = milkyWayPlanner.getSeasonView(year)
+    if (seasonCache.size >= MAX_CACHED_SEASONS) {
+      seasonCache.delete(seasonCache.keys().next().value!)
+    }
+    seasonCache.set(year, season)
+  }
+
+  const formatNight = (window: MilkyWayWindow, timezone: string) =>
+    `${Number(window.localDate.slice(8))} · ${window.start.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone: timezone })}`
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-indigo-50 to-violet-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl md:text-5xl font-bold bg-gradient-to-r from-indigo-600 via-violet-500 to-fuchsia-500 bg-clip-text text-transparent">
+            Milky Way Season {year}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            The best night each month to photograph the galactic core
+          </p>
+        </div>
+
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>Best nights by month</CardTitle>
+            <CardDescription>
+              Nights when the core climbs at least 10° during astronomical darkness, scored by how little
+              moonlight there is. Each cell shows the evening date and when the window opens, in local time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  {MONTHS.map(month => (
+                    <TableHead key={month} className="text-center">{month}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {season.map(({ location, months }) => (
+                  <TableRow key={location.id}>
+                    <TableCell className="font-medium">
+                      {location.city}
+                      <div className="text-xs text-gray-500">{location.country}</div>
+                    </TableCell>
+                    {months.map(({ month, bestNights }) => {
+                      const best = bestNights[0]
+                      return (
+                        <TableCell key={month} className="text-center">
+                          {best ? (
+                            <span
+                              className={`inline-block rounded px-2 py-1 text-xs tabular-nums ${QUALITY_COLORS[best.quality]}`}
+                              title={`Score ${best.score} · core up to ${best.peak.altitude.toFixed(0)}° · moon ${Math.round(best.moon.illumination * 100)}% lit`}
+                            >
+                              {formatNight(best, location.timezone)}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
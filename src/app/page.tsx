@@ -6,12 +6,18 @@ import dynamic from 'next/dynamic'
 import { CompactSearchBar } from '@/components/CompactSearchBar'
 import { GoldenHourDisplay } from '@/components/GoldenHourDisplay'
 import { TimeCards } from '@/components/TimeCards'
+import { TwilightTimeline } from '@/components/TwilightTimeline'
+import { useCurrentTime } from '@/hooks/use-clock'
+import { LightCurveChart } from '@/components/LightCurveChart'
 import { locationService } from '@/lib/locationService'
-import { goldenHourService } from '@/lib/goldenHourService'
-import { weatherService } from '@/lib/weatherService'
+import { weatherClient } from '@/lib/weather-client'
+import { sunClient } from '@/lib/sun-client'
 import { locationDatabase } from '@/lib/locationDatabase'
-import { generateSEOFriendlyURL, formatDateForURL, parseDateFromURL } from '@/lib/urlUtils'
-import type { LocationData, GoldenHourData, WeatherData } from '@/types'
+import { systemClock } from '@/lib/clock'
+import { generateSEOFriendlyURL, formatDateForURL, parseDateFromURL, parseObserverHeight } from '@/lib/url-utils'
+import type { DayInfo, TwilightTimeline as TwilightTimelineData } from '@/lib/sun-calculator'
+import type { LightCurve } from '@/lib/light-model'
+import type { LocationData, WeatherData } from '@/types'
 
 // Dynamic imports for performance
 const EnhancedInteractiveMap = dynamic(() => import('@/components/EnhancedInteractiveMap'), {
@@ -40,6 +46,7 @@ interface GoldenHourCalculatorProps {
     lng?: string
     location?: string
     date?: string
+    height?: string
   }
 }
 
@@ -53,21 +60,25 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
   const lng = propSearchParams?.lng || clientSearchParams?.get('lng')
   const locationName = propSearchParams?.location || clientSearchParams?.get('location')
   const dateParam = propSearchParams?.date || clientSearchParams?.get('date')
+  const heightParam = propSearchParams?.height || clientSearchParams?.get('height')
 
   // State management
   const [location, setLocation] = useState('')
   const [date, setDate] = useState(() => {
-    const today = new Date()
+    const today = systemClock.now()
     return today.toISOString().split('T')[0]
   })
-  const [goldenHourData, setGoldenHourData] = useState<GoldenHourData | null>(null)
+  const [goldenHourData, setGoldenHourData] = useState<DayInfo | null>(null)
   const [loading, setLoading] = useState(false)
   const [locationError, setLocationError] = useState('')
   const [autoDetecting, setAutoDetecting] = useState(false)
   const [autoLocation, setAutoLocation] = useState<LocationData | null>(null)
+  const [observerHeight, setObserverHeight] = useState<number | null>(() => parseObserverHeight(heightParam))
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null)
   const [weatherLoading, setWeatherLoading] = useState(false)
-  const [currentTime, setCurrentTime] = useState(new Date())
+  const [twilightTimeline, setTwilightTimeline] = useState<TwilightTimelineData | null>(null)
+  const [lightCurve, setLightCurve] = useState<LightCurve | null>(null)
+  const currentTime = useCurrentTime()
   const [mounted, setMounted] = useState(false)
 
   // Mark component as mounted
@@ -75,15 +86,6 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
     setMounted(true)
   }, [])
 
-  // Update current time every minute
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setCurrentTime(new Date())
-    }, 60000) // Update every minute
-
-    return () => clearInterval(timer)
-  }, [])
-
   // Service worker registration
   useEffect(() => {
     if ('serviceWorker' in navigator) {
@@ -108,10 +110,11 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
       setLocationError('')
 
       try {
-        const data = await goldenHourService.calculateGoldenHour(
+        const data = await sunClient.getDayInfo(
           Number(locationData.lat),
           Number(locationData.lon),
           date,
+          { observerHeight: observerHeight ?? undefined, timezone: locationData.timezone },
         )
         setGoldenHourData(data)
         
@@ -129,9 +132,14 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
         setLoading(false)
       }
     },
-    [date],
+    [date, observerHeight],
   )
 
+  // Keep observer height in sync with the ?height= parameter
+  useEffect(() => {
+    setObserverHeight(parseObserverHeight(heightParam))
+  }, [heightParam])
+
   // Process URL parameters on mount
   useEffect(() => {
     const processURLParameters = async () => {
@@ -306,7 +314,7 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
   const updateURL = useCallback(
     async (locationData: any, selectedDate: string) => {
       if (locationData && typeof window !== "undefined") {
-        const dateObj = selectedDate ? new Date(selectedDate) : new Date()
+        const dateObj = selectedDate ? new Date(selectedDate) : systemClock.now()
         
         // Get location name, prioritizing city over full address
         let locationName = locationData.city
@@ -338,6 +346,7 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
           lng: locationData.lon || locationData.lng,
           locationName,
           date: formatDateForURL(dateObj),
+          observerHeight: observerHeight ?? undefined,
         })
 
         console.log('updateURL called:', { 
@@ -351,13 +360,13 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
         })
         
         // Update URL without page reload
-        if (window.location.pathname !== newURL) {
+        if (window.location.pathname + window.location.search !== newURL) {
           console.log('Updating URL from', window.location.pathname, 'to', newURL)
           router.replace(newURL)
         }
       }
     },
-    [router, propSearchParams],
+    [router, propSearchParams, observerHeight],
   )
 
   const autoDetectLocation = useCallback(async () => {
@@ -436,9 +445,11 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
         return
       }
       
-      const weather = await weatherService.getWeatherData(
+      // Weather comes through our own API so the provider key never reaches the browser
+      const { data: weather } = await weatherClient.getCurrent(
         Number(locationData.lat),
-        Number(locationData.lon)
+        Number(locationData.lon),
+        locationData.timezone
       )
       setWeatherData(weather)
     } catch (error) {
@@ -567,6 +578,59 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
     [goldenHourData, loading, weatherData, currentTime],
   )
 
+  // The timeline and light curve come from the API like the day info, keeping the solar engine server-side
+  useEffect(() => {
+    if (!autoLocation) {
+      setTwilightTimeline(null)
+      return
+    }
+
+    let cancelled = false
+    const fetchTwilightTimeline = async () => {
+      try {
+        const timeline = await sunClient.getTwilightTimeline(Number(autoLocation.lat), Number(autoLocation.lon), date, {
+          observerHeight: observerHeight ?? undefined,
+          timezone: autoLocation.timezone,
+        })
+        if (!cancelled) setTwilightTimeline(timeline)
+      } catch (error) {
+        console.error('Error fetching twilight timeline:', error)
+        if (!cancelled) setTwilightTimeline(null)
+      }
+    }
+    fetchTwilightTimeline()
+
+    return () => {
+      cancelled = true
+    }
+  }, [autoLocation, date, observerHeight])
+
+  useEffect(() => {
+    if (!autoLocation) {
+      setLightCurve(null)
+      return
+    }
+
+    let cancelled = false
+    const fetchLightCurve = async () => {
+      try {
+        const curve = await sunClient.getLightCurve(Number(autoLocation.lat), Number(autoLocation.lon), date, {
+          timezone: autoLocation.timezone,
+          weather: weatherData,
+        })
+        if (!cancelled) setLightCurve(curve)
+      } catch (error) {
+        console.error('Error fetching light curve:', error)
+        if (!cancelled) setLightCurve(null)
+      }
+    }
+    fetchLightCurve()
+
+    return () => {
+      cancelled = true
+    }
+  }, [autoLocation, date, weatherData])
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-rose-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
       <div className="container mx-auto px-4 py-8 space-y-8">
@@ -589,6 +653,8 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
           <div className="space-y-6">
             {memoizedGoldenHourDisplay}
             {memoizedTimeCards}
+            <TwilightTimeline timeline={twilightTimeline} currentTime={currentTime} />
+            <LightCurveChart curve={lightCurve} />
           </div>
 
           {/* Right Column - Map */}
@@ -598,6 +664,7 @@ export default function GoldenHourCalculator({ searchParams }: GoldenHourCalcula
               onLocationSelect={handleMapLocationSelect}
               goldenHourData={goldenHourData}
               date={date}
+              observerHeight={observerHeight ?? undefined}
             />
           </div>
         </div>
@@ -0,0 +1,136 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { MapContainer, TileLayer, useMap, useMapEvents } from 'react-leaflet'
+import 'leaflet/dist/leaflet.css'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import ShadowLayer from '@/components/ShadowLayer'
+import SunPathLayer from '@/components/SunPathLayer'
+import type { DayInfo } from '@/lib/sun-calculator'
+
+interface MapLocation {
+  lat: number | string
+  lon: number | string
+  timezone?: string
+}
+
+interface EnhancedInteractiveMapProps {
+  location: MapLocation | null
+  onLocationSelect: (lat: number, lng: number) => void
+  goldenHourData: DayInfo | null
+  date: string // YYYY-MM-DD
+  observerHeight?: number // meters, lowers the horizon the sun path is measured against
+}
+
+const DEFAULT_OBJECT_HEIGHT = 10 // meters
+
+// MapContainer only reads `center` on mount, so follow location changes by hand
+function Recenter({ lat, lon }: { lat: number; lon: number }) {
+  const map = useMap()
+  useEffect(() => {
+    map.setView([lat, lon], map.getZoom())
+  }, [map, lat, lon])
+  return null
+}
+
+function ClickToSelect({ onSelect }: { onSelect: (lat: number, lng: number) => void }) {
+  useMapEvents({
+    click: event => onSelect(event.latlng.lat, event.latlng.lng)
+  })
+  return null
+}
+
+/**
+ * Map of the shoot location with the day's sun path and the shadows cast through its golden hour.
+ * Clicking the map picks a new location.
+ */
+export default function EnhancedInteractiveMap({ location, onLocationSelect, goldenHourData, date, observerHeight }: EnhancedInteractiveMapProps) {
+  const [showSunPath, setShowSunPath] = useState(true)
+  const [showShadows, setShowShadows] = useState(true)
+  const [objectHeight, setObjectHeight] = useState(DEFAULT_OBJECT_HEIGHT)
+  const [shadowError, setShadowError] = useState<string | null>(null)
+  const handleShadowError = useCallback((error: Error | null) => setShadowError(error?.message ?? null), [])
+
+  if (!location) {
+    return (
+      <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+        <CardContent className="h-96 flex items-center justify-center text-sm text-gray-500">
+          Choose a location to see it on the map
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const lat = Number(location.lat)
+  const lon = Number(location.lon)
+  const timezone = goldenHourData?.timezone ?? location.timezone
+  // Shadows are most useful over the evening golden hour; fall back to the morning one
+  const golden = goldenHourData?.goldenHours.evening ?? goldenHourData?.goldenHours.morning ?? null
+
+  return (
+    <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">Map</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <Switch id="map-sun-path" checked={showSunPath} onCheckedChange={setShowSunPath} />
+            <Label htmlFor="map-sun-path">Sun path</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="map-shadows" checked={showShadows} onCheckedChange={setShowShadows} />
+            <Label htmlFor="map-shadows">Golden hour shadows</Label>
+          </div>
+          {showShadows && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="map-object-height">Object height (m)</Label>
+              <Input
+                id="map-object-height"
+                type="number"
+                min={0.1}
+                step={0.5}
+                className="w-20"
+                value={objectHeight}
+                onChange={event => setObjectHeight(parseFloat(event.target.value))}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="h-96 rounded-lg overflow-hidden">
+          <MapContainer center={[lat, lon]} zoom={16} className="h-full w-full" scrollWheelZoom={false}>
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+            <Recenter lat={lat} lon={lon} />
+            <ClickToSelect onSelect={onLocationSelect} />
+            {showSunPath && (
+              <SunPathLayer lat={lat} lon={lon} date={date} timezone={timezone} observerHeight={observerHeight} />
+            )}
+            {showShadows && golden && (
+              <ShadowLayer
+                lat={lat}
+                lon={lon}
+                objectHeight={objectHeight}
+                start={golden.start}
+                end={golden.end}
+                timezone={timezone}
+                onErrorChange={handleShadowError}
+              />
+            )}
+          </MapContainer>
+        </div>
+
+        {showShadows && !golden && goldenHourData && (
+          <p className="text-xs text-gray-500">The sun doesn&apos;t reach golden hour altitudes on {date}</p>
+        )}
+        {showShadows && golden && shadowError && <p className="text-xs text-red-600">{shadowError}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { LightCurve } from '@/lib/light-model'
+
+interface LightCurveChartProps {
+  curve: LightCurve | null
+}
+
+// Below civil twilight there is too little light for a color temperature to matter
+const MIN_CHART_ALTITUDE = -6
+
+export function LightCurveChart({ curve }: LightCurveChartProps) {
+  if (!curve) return null
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: curve.timezone })
+
+  const data = curve.samples.map(sample => ({
+    time: sample.time.getTime(),
+    colorTemperature: sample.sunAltitude >= MIN_CHART_ALTITUDE ? sample.colorTemperature : null,
+    illuminance: Math.round(sample.relativeIlluminance * 100)
+  }))
+
+  return (
+    <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">Light Quality</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatTime}
+                tickCount={7}
+                fontSize={12}
+              />
+              <YAxis yAxisId="kelvin" domain={[1500, 8000]} tickFormatter={value => `${value}K`} fontSize={12} width={56} />
+              <YAxis yAxisId="light" orientation="right" domain={[0, 100]} tickFormatter={value => `${value}%`} fontSize={12} width={40} />
+              <Tooltip
+                labelFormatter={value => formatTime(Number(value))}
+                formatter={(value, name) =>
+                  name === 'colorTemperature' ? [`${value} K`, 'Color temperature'] : [`${value}%`, 'Brightness']
+                }
+              />
+              <Area
+                yAxisId="light"
+                dataKey="illuminance"
+                type="monotone"
+                stroke="#fbbf24"
+                fill="#fde68a"
+                fillOpacity={0.4}
+                isAnimationActive={false}
+              />
+              <Line
+                yAxisId="kelvin"
+                dataKey="colorTemperature"
+                type="monotone"
+                stroke="#f97316"
+                strokeWidth={2}
+                dot={false}
+                connectNulls={false}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CircleMarker, GeoJSON } from 'react-leaflet'
+import type { Layer, PathOptions } from 'leaflet'
+import type { Feature, Geometry } from 'geojson'
+import { sunClient } from '@/lib/sun-client'
+import type { ShadowFeatureCollection, ShadowFeatureProperties, ShadowPlannerOptions } from '@/lib/shadow-planner'
+
+interface ShadowLayerProps extends ShadowPlannerOptions {
+  lat: number
+  lon: number
+  objectHeight: number // meters
+  start: Date
+  end: Date
+  timezone?: string
+  onErrorChange?: (error: Error | null) => void // why nothing is drawn (e.g. a non-positive height), null once it is
+}
+
+// Morning shadows in amber through to evening shadows in violet
+function shadowColor(fraction: number): string {
+  const hue = 40 - fraction * 100
+  return `hsl(${(hue + 360) % 360}, 85%, 50%)`
+}
+
+/**
+ * Draws the shadow of an object at the shoot location as one vector per time step, as computed
+ * by the shadows API. Must be rendered inside a react-leaflet MapContainer.
+ */
+export default function ShadowLayer({ lat, lon, objectHeight, start, end, timezone, stepMinutes, maxLength, onErrorChange }: ShadowLayerProps) {
+  // Shadows with the inputs they were fetched for, which key the layer
+  const [result, setResult] = useState<{ key: string; shadows: ShadowFeatureCollection } | null>(null)
+  const [error, setError] = useState<Error | null>(null)
+
+  // The API rejects invalid inputs (e.g. a non-positive height), which must not take the whole map down
+  useEffect(() => {
+    let cancelled = false
+    const key = `${lat}_${lon}_${objectHeight}_${start.getTime()}_${end.getTime()}_${stepMinutes}_${maxLength}`
+    const fetchShadows = async () => {
+      try {
+        const shadows = await sunClient.getShadows(lat, lon, objectHeight, start, end, { stepMinutes, maxLength })
+        if (cancelled) return
+        setResult({ key, shadows })
+        setError(null)
+      } catch (error) {
+        if (cancelled) return
+        setResult(null)
+        setError(error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+    fetchShadows()
+
+    return () => {
+      cancelled = true
+    }
+  }, [lat, lon, objectHeight, start, end, stepMinutes, maxLength])
+
+  useEffect(() => {
+    onErrorChange?.(error)
+  }, [error, onErrorChange])
+
+  if (!result) return null
+
+  const range = Math.max(end.getTime() - start.getTime(), 1)
+
+  const style = (feature?: Feature<Geometry, ShadowFeatureProperties>): PathOptions => {
+    const fraction = feature ? (new Date(feature.properties.time).getTime() - start.getTime()) / range : 0
+    return {
+      color: shadowColor(fraction),
+      weight: 3,
+      opacity: 0.85,
+      dashArray: feature?.properties.clipped ? '6 4' : undefined
+    }
+  }
+
+  const onEachFeature = (feature: Feature<Geometry, ShadowFeatureProperties>, layer: Layer) => {
+    const { time, length, direction, sunAltitude } = feature.properties
+    const label = new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timezone })
+    layer.bindTooltip(
+      `${label}: ${length?.toFixed(1)} m${feature.properties.clipped ? '+' : ''} toward ${direction.toFixed(0)}° (sun ${sunAltitude.toFixed(1)}°)`
+    )
+  }
+
+  return (
+    <>
+      <GeoJSON
+        // GeoJSON layers don't redraw on new data, so remount when fresh shadows arrive
+        key={result.key}
+        data={result.shadows}
+        style={style}
+        onEachFeature={onEachFeature}
+      />
+      <CircleMarker center={[lat, lon]} radius={5} pathOptions={{ color: '#1f2937', fillOpacity: 1 }} />
+    </>
+  )
+}
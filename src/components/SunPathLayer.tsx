@@ -0,0 +1,102 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CircleMarker, GeoJSON } from 'react-leaflet'
+import { circleMarker, type Layer, type LatLng, type PathOptions } from 'leaflet'
+import type { Feature, Geometry } from 'geojson'
+import { sunClient, type SunRequestOptions } from '@/lib/sun-client'
+import type {
+  SunPathEvent,
+  SunPathFeatureCollection,
+  SunPathFeatureProperties,
+  SunPathGeometryOptions
+} from '@/lib/sun-path-geometry'
+
+interface SunPathLayerProps extends SunRequestOptions, Pick<SunPathGeometryOptions, 'radius' | 'arcStep'> {
+  lat: number
+  lon: number
+  date: string // YYYY-MM-DD
+}
+
+const EVENT_COLORS: Record<SunPathEvent, string> = {
+  'sunrise': '#f59e0b',
+  'sunset': '#e11d48',
+  'solar-noon': '#facc15',
+  'morning-golden-hour': '#fbbf24',
+  'evening-golden-hour': '#f97316',
+  'daylight': '#38bdf8'
+}
+
+/**
+ * Draws the day's sun path, sunrise/sunset/noon rays and golden hour arcs around a location, as
+ * computed by the sun path API. Must be rendered inside a react-leaflet MapContainer.
+ */
+export default function SunPathLayer({ lat, lon, date, radius, arcStep, observerHeight, bands, timezone }: SunPathLayerProps) {
+  // The path with the inputs it was fetched for, which key the layer
+  const [result, setResult] = useState<{ key: string; timezone: string; geometry: SunPathFeatureCollection } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const key = [lat, lon, date, radius, arcStep, timezone, observerHeight, bands].join('_')
+    const fetchSunPath = async () => {
+      try {
+        const sunPath = await sunClient.getSunPath(lat, lon, date, { radius, arcStep, observerHeight, bands, timezone })
+        if (!cancelled) setResult({ key, ...sunPath })
+      } catch (error) {
+        console.error('Error fetching sun path:', error)
+        if (!cancelled) setResult(null)
+      }
+    }
+    fetchSunPath()
+
+    return () => {
+      cancelled = true
+    }
+  }, [lat, lon, date, radius, arcStep, observerHeight, bands, timezone])
+
+  if (!result) return null
+
+  // Times read in the zone the server took the day in, not the browser's
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: result.timezone })
+
+  const style = (feature?: Feature<Geometry, SunPathFeatureProperties>): PathOptions => {
+    const properties = feature?.properties
+    if (!properties || properties.kind === 'sun-path') {
+      return { color: '#f59e0b', weight: 3, opacity: 0.9 }
+    }
+    const color = properties.event ? EVENT_COLORS[properties.event] : '#6b7280'
+    return properties.kind === 'arc'
+      ? { color, weight: properties.event === 'daylight' ? 2 : 6, opacity: properties.event === 'daylight' ? 0.5 : 0.8 }
+      : { color, weight: 2, opacity: 0.9, dashArray: '6 4' }
+  }
+
+  // Hour markers are points; draw them as small dots rather than default pin icons
+  const pointToLayer = (_feature: Feature<Geometry, SunPathFeatureProperties>, latlng: LatLng) =>
+    circleMarker(latlng, { radius: 3, color: '#b45309', fillColor: '#fde68a', fillOpacity: 1, weight: 1 })
+
+  const onEachFeature = (feature: Feature<Geometry, SunPathFeatureProperties>, layer: Layer) => {
+    const { kind, label, time, start, end, azimuth, altitude } = feature.properties
+    if (kind === 'ray' && time) {
+      layer.bindTooltip(`${label}: ${formatTime(time)} · ${azimuth?.toFixed(0)}°`)
+    } else if (kind === 'arc' && start && end) {
+      layer.bindTooltip(`${label}: ${formatTime(start)} – ${formatTime(end)}`)
+    } else if (kind === 'hour') {
+      layer.bindTooltip(`${label} · ${azimuth?.toFixed(0)}° az, ${altitude?.toFixed(0)}° alt`)
+    }
+  }
+
+  return (
+    <>
+      <GeoJSON
+        // GeoJSON layers don't redraw on new data, so remount when a fresh path arrives
+        key={result.key}
+        data={result.geometry}
+        style={style}
+        pointToLayer={pointToLayer}
+        onEachFeature={onEachFeature}
+      />
+      <CircleMarker center={[lat, lon]} radius={5} pathOptions={{ color: '#1f2937', fillOpacity: 1 }} />
+    </>
+  )
+}
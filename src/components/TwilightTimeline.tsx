@@ -0,0 +1,79 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { TwilightPhaseName, TwilightTimeline as TwilightTimelineData } from '@/lib/sun-calculator'
+
+interface TwilightTimelineProps {
+  timeline: TwilightTimelineData | null
+  currentTime?: Date
+}
+
+const PHASE_COLORS: Record<TwilightPhaseName, string> = {
+  'night': 'bg-slate-900',
+  'astronomical-twilight': 'bg-indigo-900',
+  'nautical-twilight': 'bg-indigo-700',
+  'civil-twilight': 'bg-indigo-500',
+  'blue-hour': 'bg-blue-500',
+  'golden-hour': 'bg-amber-400',
+  'daylight': 'bg-sky-300',
+  'solar-noon': 'bg-yellow-300'
+}
+
+export function TwilightTimeline({ timeline, currentTime }: TwilightTimelineProps) {
+  if (!timeline) return null
+
+  const dayStart = timeline.phases[0].start.getTime()
+  const dayLength = timeline.phases[timeline.phases.length - 1].end.getTime() - dayStart
+  const offsetOf = (date: Date) => ((date.getTime() - dayStart) / dayLength) * 100
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timeline.timezone })
+
+  const nowOffset = currentTime ? offsetOf(currentTime) : null
+  const bars = timeline.phases.filter(phase => phase.phase !== 'solar-noon')
+
+  return (
+    <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">Light Phases</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* One continuous bar from local midnight to local midnight */}
+        <div className="relative h-6 w-full overflow-hidden rounded-full">
+          {bars.map(phase => (
+            <div
+              key={`${phase.phase}-${phase.start.getTime()}`}
+              className={`absolute top-0 h-full ${PHASE_COLORS[phase.phase]}`}
+              style={{ left: `${offsetOf(phase.start)}%`, width: `${offsetOf(phase.end) - offsetOf(phase.start)}%` }}
+              title={`${phase.label}: ${formatTime(phase.start)} – ${formatTime(phase.end)}`}
+            />
+          ))}
+          <div
+            className="absolute top-0 h-full w-0.5 bg-yellow-200"
+            style={{ left: `${offsetOf(timeline.solarNoon)}%` }}
+            title={`Solar noon: ${formatTime(timeline.solarNoon)}`}
+          />
+          {nowOffset !== null && nowOffset >= 0 && nowOffset <= 100 && (
+            <div className="absolute top-0 h-full w-0.5 bg-red-500" style={{ left: `${nowOffset}%` }} title="Now" />
+          )}
+        </div>
+
+        <ul className="space-y-1 text-sm">
+          {timeline.phases.map(phase => (
+            <li key={`${phase.phase}-${phase.start.getTime()}`} className="flex items-center justify-between gap-4">
+              <span className="flex items-center gap-2">
+                <span className={`inline-block h-3 w-3 rounded-full ${PHASE_COLORS[phase.phase]}`} />
+                {phase.label}
+              </span>
+              <span className="tabular-nums text-gray-600 dark:text-gray-300">
+                {phase.phase === 'solar-noon'
+                  ? `${formatTime(phase.start)} · ${phase.startAltitude.toFixed(1)}°`
+                  : `${formatTime(phase.start)} – ${formatTime(phase.end)}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
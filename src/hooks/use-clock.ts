@@ -0,0 +1,19 @@
+import * as React from "react"
+import { systemClock, type Clock } from "@/lib/clock"
+
+// Re-reads the clock on an interval so countdowns stay live. Defaults to the clock
+// sunCalculator is bound to, so the page and the calculations agree on "now".
+export function useCurrentTime(intervalMs = 60000, clock: Clock = systemClock) {
+  const [currentTime, setCurrentTime] = React.useState(() => clock.now())
+
+  React.useEffect(() => {
+    setCurrentTime(clock.now())
+    const timer = setInterval(() => {
+      setCurrentTime(clock.now())
+    }, intervalMs)
+
+    return () => clearInterval(timer)
+  }, [clock, intervalMs])
+
+  return currentTime
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { alignmentFinder, MAX_ALIGNMENT_DAYS } from './alignment-finder'
+import { destinationPoint } from './horizon-profile'
+import { solarPositionEngine } from './solar-position'
+import { SOLAR_POSITION_REFERENCE_CASES } from './solar-position-reference'
+
+describe('alignmentFinder.getLineOfSight', () => {
+  const camera = { lat: 51.5, lon: -0.12 }
+
+  it('drops a distant subject below eye level by curvature, less terrestrial refraction', () => {
+    const north = { lat: destinationPoint(camera.lat, camera.lon, 0, 10000).lat, lon: camera.lon }
+    const sight = alignmentFinder.getLineOfSight(camera, north, 0)
+
+    expect(sight.azimuth).toBeCloseTo(0, 3)
+    expect(sight.distance).toBeCloseTo(10000, -1)
+    // 10 km² / 2R × (1 - 0.13) ≈ 6.83 m below the eye line
+    expect(sight.altitude).toBeCloseTo(Math.atan2(-6.83, 10000) * 180 / Math.PI, 3)
+  })
+
+  it('looks up at a tall subject from eye height', () => {
+    const east = destinationPoint(camera.lat, camera.lon, 90, 1000)
+    const sight = alignmentFinder.getLineOfSight(camera, { ...east, height: 100 })
+
+    expect(sight.azimuth).toBeCloseTo(90, 1)
+    expect(sight.altitude).toBeCloseTo(Math.atan2(100 - 1.7 - 0.07, 1000) * 180 / Math.PI, 2)
+  })
+})
+
+describe('alignmentFinder.findAlignments', () => {
+  it('puts the sun behind a subject on its NOAA reference azimuth at the reference time', () => {
+    // New York, winter solstice afternoon: the sun low in the south-west
+    const reference = SOLAR_POSITION_REFERENCE_CASES.find(c => c.name.startsWith('New York'))!
+    const camera = { lat: reference.lat, lon: reference.lon }
+    const geometric = 90 - reference.expected.zenith
+    const apparent = geometric + solarPositionEngine.getRefraction(geometric)
+
+    // A subject 3 km out on that azimuth, just tall enough to reach the sun's apparent altitude
+    const base = destinationPoint(camera.lat, camera.lon, reference.expected.azimuth, 3000)
+    const ground = alignmentFinder.getLineOfSight(camera, base)
+    const height = ground.distance * (Math.tan(apparent * Math.PI / 180) - Math.tan(ground.altitude * Math.PI / 180))
+
+    const matches = alignmentFinder.findAlignments(
+      camera,
+      { ...base, height },
+      new Date(reference.date.getTime() - 60 * 60 * 1000),
+      new Date(reference.date.getTime() + 60 * 60 * 1000),
+      { bodies: ['sun'] }
+    )
+
+    expect(matches).toHaveLength(1)
+    expect(Math.abs(matches[0].time.getTime() - reference.date.getTime())).toBeLessThan(60 * 1000)
+    expect(matches[0].separation).toBeLessThan(0.05)
+  })
+
+  it('refuses ranges longer than the scan limit', () => {
+    const start = new Date('2025-01-01T00:00:00Z')
+    const end = new Date(start.getTime() + (MAX_ALIGNMENT_DAYS + 1) * 24 * 60 * 60 * 1000)
+
+    expect(() => alignmentFinder.findAlignments({ lat: 51.5, lon: -0.12 }, { lat: 51.6, lon: -0.12 }, start, end))
+      .toThrow(`Date range must not exceed ${MAX_ALIGNMENT_DAYS} days`)
+  })
+})
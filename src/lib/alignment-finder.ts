@@ -0,0 +1,232 @@
+import { sunCalculator } from './sun-calculator'
+import { moonCalculator } from './moon-calculator'
+import { solarPositionEngine } from './solar-position'
+import { EARTH_RADIUS, getCurvatureDrop } from './horizon-profile'
+
+type CelestialBody = 'sun' | 'moon'
+
+interface AlignmentPoint {
+  lat: number
+  lon: number
+  elevation?: number // ground elevation in meters above sea level
+}
+
+interface AlignmentSubject extends AlignmentPoint {
+  height?: number // height of the landmark above its ground in meters
+}
+
+interface LineOfSight {
+  azimuth: number // degrees from North
+  altitude: number // degrees above the camera's horizon
+  distance: number // meters
+}
+
+interface AlignmentOptions {
+  bodies?: CelestialBody[]
+  azimuthTolerance?: number // degrees
+  altitudeTolerance?: number // degrees
+  stepMinutes?: number // coarse scan step
+  cameraHeight?: number // camera above its ground in meters
+}
+
+interface AlignmentMatch {
+  body: CelestialBody
+  time: Date
+  azimuth: number // body azimuth in degrees
+  altitude: number // body apparent altitude in degrees
+  azimuthOffset: number // body minus line of sight, degrees
+  altitudeOffset: number // body minus line of sight, degrees
+  separation: number // angular distance between body center and subject, degrees
+  bodyDiameter: number // apparent diameter of the body in degrees
+  score: number // 0-100, 100 = dead center
+  moonIllumination?: number // 0-1, moon matches only
+}
+
+const SUN_DIAMETER = 0.533 // degrees
+// Both bodies are scanned every couple of minutes, about 30 ms of work per day
+const MAX_ALIGNMENT_DAYS = 92
+
+const DEFAULT_OPTIONS: Required<AlignmentOptions> = {
+  bodies: ['sun', 'moon'],
+  azimuthTolerance: 0.5,
+  altitudeTolerance: 0.5,
+  stepMinutes: 2,
+  cameraHeight: 1.7
+}
+
+class AlignmentFinder {
+  /**
+   * Direction and elevation angle from the camera to the top of the subject
+   */
+  getLineOfSight(camera: AlignmentPoint, subject: AlignmentSubject, cameraHeight = DEFAULT_OPTIONS.cameraHeight): LineOfSight {
+    const toRad = Math.PI / 180
+    const phi1 = camera.lat * toRad
+    const phi2 = subject.lat * toRad
+    const deltaLambda = (subject.lon - camera.lon) * toRad
+
+    const y = Math.sin(deltaLambda) * Math.cos(phi2)
+    const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(deltaLambda)
+    const azimuth = (Math.atan2(y, x) / toRad + 360) % 360
+
+    const a = Math.sin((phi2 - phi1) / 2) ** 2 + Math.cos(phi1) * Math.cos(phi2) * Math.sin(deltaLambda / 2) ** 2
+    const distance = 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)))
+
+    // Earth curvature lowers a distant subject, terrestrial refraction lifts it slightly
+    const cameraEyeLevel = (camera.elevation ?? 0) + cameraHeight
+    const subjectTop = (subject.elevation ?? 0) + (subject.height ?? 0) - getCurvatureDrop(distance)
+    const altitude = Math.atan2(subjectTop - cameraEyeLevel, Math.max(distance, 1)) / toRad
+
+    return { azimuth, altitude, distance }
+  }
+
+  /**
+   * Find every time in a date range (at most MAX_ALIGNMENT_DAYS long) when the sun or moon sits behind the subject
+   */
+  findAlignments(
+    camera: AlignmentPoint,
+    subject: AlignmentSubject,
+    startDate: Date,
+    endDate: Date,
+    options: AlignmentOptions = {}
+  ): AlignmentMatch[] {
+    const settings = { ...DEFAULT_OPTIONS, ...options }
+    const lineOfSight = this.getLineOfSight(camera, subject, settings.cameraHeight)
+    const stepMs = settings.stepMinutes * 60 * 1000
+    const matches: AlignmentMatch[] = []
+
+    if (endDate.getTime() <= startDate.getTime()) {
+      throw new Error('End date must be after start date')
+    }
+    // Rounded, so a range of whole local days that crosses a DST change still counts its days
+    if (Math.round((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) > MAX_ALIGNMENT_DAYS) {
+      throw new Error(`Date range must not exceed ${MAX_ALIGNMENT_DAYS} days`)
+    }
+
+    for (const body of settings.bodies) {
+      // The sun and moon move about 0.25° per minute, so allow that much slack in the coarse scan
+      const coarseTolerance = Math.max(settings.azimuthTolerance, settings.altitudeTolerance) + 0.3 * settings.stepMinutes
+      const separationAt = (time: number) =>
+        this.getSeparation(this.getBodyPosition(body, new Date(time), camera), lineOfSight)
+
+      let previous = separationAt(startDate.getTime())
+      let current = separationAt(startDate.getTime() + stepMs)
+
+      for (let time = startDate.getTime() + stepMs; time < endDate.getTime(); time += stepMs) {
+        const next = separationAt(time + stepMs)
+
+        // Refine local minima of the separation that come close enough to matter
+        if (current <= previous && current < next && current <= coarseTolerance) {
+          const match = this.refineMatch(body, camera, lineOfSight, time - stepMs, time + stepMs, settings)
+          if (match) {
+            matches.push(match)
+          }
+        }
+
+        previous = current
+        current = next
+      }
+    }
+
+    return matches.sort((a, b) => a.separation - b.separation)
+  }
+
+  /**
+   * Golden-section search for the closest approach inside a short interval
+   */
+  private refineMatch(
+    body: CelestialBody,
+    camera: AlignmentPoint,
+    lineOfSight: LineOfSight,
+    start: number,
+    end: number,
+    settings: Required<AlignmentOptions>
+  ): AlignmentMatch | null {
+    const ratio = (Math.sqrt(5) - 1) / 2
+    const separationAt = (time: number) =>
+      this.getSeparation(this.getBodyPosition(body, new Date(time), camera), lineOfSight)
+
+    let low = start
+    let high = end
+    while (high - low > 1000) {
+      const left = high - ratio * (high - low)
+      const right = low + ratio * (high - low)
+      if (separationAt(left) < separationAt(right)) {
+        high = right
+      } else {
+        low = left
+      }
+    }
+
+    const time = new Date(Math.round((low + high) / 2))
+    const position = this.getBodyPosition(body, time, camera)
+    const azimuthOffset = ((position.azimuth - lineOfSight.azimuth + 540) % 360) - 180
+    const altitudeOffset = position.altitude - lineOfSight.altitude
+
+    if (Math.abs(azimuthOffset) > settings.azimuthTolerance || Math.abs(altitudeOffset) > settings.altitudeTolerance) {
+      return null
+    }
+
+    const separation = this.getSeparation(position, lineOfSight)
+    const maxSeparation = Math.hypot(settings.azimuthTolerance, settings.altitudeTolerance)
+
+    return {
+      body,
+      time,
+      azimuth: position.azimuth,
+      altitude: position.altitude,
+      azimuthOffset,
+      altitudeOffset,
+      separation,
+      bodyDiameter: position.diameter,
+      score: Math.round(Math.max(0, 100 * (1 - separation / maxSeparation))),
+      ...(body === 'moon' && { moonIllumination: moonCalculator.getMoonPhase(time).illumination })
+    }
+  }
+
+  /**
+   * Apparent position of a body as seen from the camera
+   */
+  private getBodyPosition(body: CelestialBody, date: Date, camera: AlignmentPoint): {
+    azimuth: number
+    altitude: number
+    diameter: number
+  } {
+    if (body === 'moon') {
+      const moon = moonCalculator.getMoonPosition(date, camera.lat, camera.lon)
+      return { azimuth: moon.azimuth, altitude: moon.altitude, diameter: moon.angularDiameter / 60 }
+    }
+
+    const sun = sunCalculator.getSunPosition(date, camera.lat, camera.lon)
+    return {
+      azimuth: sun.azimuth,
+      // Standard refraction, as the moon position already includes
+      altitude: sun.altitude + solarPositionEngine.getRefraction(sun.altitude),
+      diameter: SUN_DIAMETER
+    }
+  }
+
+  /**
+   * Great-circle angular distance between two horizontal directions, in degrees
+   */
+  private getSeparation(
+    a: { azimuth: number; altitude: number },
+    b: { azimuth: number; altitude: number }
+  ): number {
+    const toRad = Math.PI / 180
+    const cosine =
+      Math.sin(a.altitude * toRad) * Math.sin(b.altitude * toRad) +
+      Math.cos(a.altitude * toRad) * Math.cos(b.altitude * toRad) * Math.cos((a.azimuth - b.azimuth) * toRad)
+    return Math.acos(Math.min(1, Math.max(-1, cosine))) / toRad
+  }
+}
+
+export const alignmentFinder = new AlignmentFinder()
+export { MAX_ALIGNMENT_DAYS }
+export type {
+  CelestialBody,
+  AlignmentPoint,
+  AlignmentSubject,
+  LineOfSight,
+  AlignmentOptions,
+  AlignmentMatch
+}
@@ -0,0 +1,30 @@
+import { fromZonedJSON } from './timezone-utils'
+
+/**
+ * GET one of the app's API routes and unwrap its { success, data } envelope, turning the
+ * zoned ISO strings back into Dates so results match what the server-side services return.
+ * GeoJSON keeps its strings (`reviveDates: false`), since map layers take it as plain JSON.
+ */
+export async function getJSON<T>(
+  path: string,
+  params: Record<string, string | number | undefined>,
+  options: { reviveDates?: boolean } = {}
+): Promise<T> {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value))
+    }
+  }
+
+  const response = await fetch(`${path}?${query}`, {
+    headers: { 'Accept': 'application/json' }
+  })
+  const body = await response.json().catch(() => null)
+
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.error || `Request to ${path} failed with status ${response.status}`)
+  }
+
+  return options.reviveDates === false ? body.data as T : fromZonedJSON<T>(body.data)
+}
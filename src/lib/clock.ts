@@ -0,0 +1,56 @@
+// Source of "now" for anything that compares against the current time, so callers can pin or
+// shift it (tests, previews of another moment) instead of depending on the system clock
+interface Clock {
+  now(): Date
+}
+
+class SystemClock implements Clock {
+  now(): Date {
+    return new Date()
+  }
+}
+
+/**
+ * A clock that stands still until it is moved
+ */
+class FixedClock implements Clock {
+  private time: number
+
+  constructor(time: Date | string | number) {
+    this.time = new Date(time).getTime()
+    if (isNaN(this.time)) {
+      throw new Error(`Invalid clock time: ${time}`)
+    }
+  }
+
+  now(): Date {
+    return new Date(this.time)
+  }
+
+  set(time: Date | string | number): void {
+    this.time = new Date(time).getTime()
+  }
+
+  advance(ms: number): void {
+    this.time += ms
+  }
+}
+
+/**
+ * A clock that runs in real time from a chosen starting instant
+ */
+class OffsetClock implements Clock {
+  private readonly offset: number
+
+  constructor(start: Date, private readonly base: Clock = systemClock) {
+    this.offset = start.getTime() - base.now().getTime()
+  }
+
+  now(): Date {
+    return new Date(this.base.now().getTime() + this.offset)
+  }
+}
+
+export const systemClock: Clock = new SystemClock()
+export { FixedClock, OffsetClock }
+export type { Clock }
@@ -0,0 +1,20 @@
+/**
+ * Bisect a sign change of `fn` between two timestamps to within a few seconds.
+ * Shared by the sun and moon rise/set and band searches, which all scan in coarse steps first.
+ */
+export function refineCrossing(fn: (time: number) => number, start: number, end: number): Date {
+  let low = start
+  let high = end
+  const lowSign = fn(low) > 0
+
+  while (high - low > 5000) {
+    const mid = (low + high) / 2
+    if ((fn(mid) > 0) === lowSign) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+
+  return new Date((low + high) / 2)
+}
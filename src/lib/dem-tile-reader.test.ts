@@ -0,0 +1,70 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { DemTileReader } from './dem-tile-reader'
+
+// Big-endian 16-bit samples, rows from the northern edge southwards
+const tile = (rows: number[][]): Buffer => {
+  const data = Buffer.alloc(rows.length * rows.length * 2)
+  rows.flat().forEach((value, i) => data.writeInt16BE(value, i * 2))
+  return data
+}
+
+describe('DemTileReader', () => {
+  let tileDir: string
+
+  beforeEach(async () => {
+    tileDir = await mkdtemp(path.join(tmpdir(), 'dem-'))
+    await writeFile(path.join(tileDir, 'N51W001.hgt'), tile([
+      [100, 200, 300],
+      [400, 500, 600],
+      [700, 800, -32768]
+    ]))
+  })
+
+  afterEach(async () => {
+    await rm(tileDir, { recursive: true, force: true })
+  })
+
+  it('interpolates between samples and skips voids', async () => {
+    const reader = new DemTileReader(tileDir)
+    await reader.loadTile(51.5, -0.5)
+
+    expect(reader.getElevation(51.6, -0.6)).toBeCloseTo(420)
+    expect(reader.getElevation(51.75, -0.75)).toBe(300)
+    // The south-east cell has a void corner, so its three valid corners are averaged
+    expect(reader.getElevation(51.25, -0.25)).toBeCloseTo((500 + 600 + 800) / 3)
+  })
+
+  it('returns null outside the loaded tiles', async () => {
+    const reader = new DemTileReader(tileDir)
+    await reader.loadTile(51.5, -0.5)
+
+    expect(reader.getElevation(50.5, -0.5)).toBeNull()
+  })
+
+  it('evicts the least recently used tiles', async () => {
+    const names = Array.from({ length: 17 }, (_, i) => `N00E${String(i).padStart(3, '0')}`)
+    await Promise.all(names.map(name => writeFile(path.join(tileDir, `${name}.hgt`), tile([[1, 1], [1, 1]]))))
+    const reader = new DemTileReader(tileDir)
+
+    await reader.loadTile(0.5, 0.5)
+    for (let lon = 1; lon < 17; lon++) {
+      // Touch the first tile again partway through, so the second is the oldest at the end
+      if (lon === 8) await reader.loadTile(0.5, 0.5)
+      await reader.loadTile(0.5, lon + 0.5)
+    }
+
+    expect(reader.getElevation(0.5, 0.5)).toBe(1)
+    expect(reader.getElevation(0.5, 1.5)).toBeNull()
+    expect(reader.getElevation(0.5, 16.5)).toBe(1)
+  })
+
+  it('flags profiles built without any tiles', async () => {
+    const reader = new DemTileReader(tileDir)
+    const profile = await reader.getHorizonProfile(-40.5, -30.5, { azimuthStep: 10, maxDistance: 5000 })
+
+    expect(profile.hasData).toBe(false)
+  })
+})
@@ -0,0 +1,170 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { buildHorizonProfile, type ElevationSampler, type HorizonProfile, type HorizonProfileOptions } from './horizon-profile'
+
+interface DemTile {
+  latFloor: number
+  lonFloor: number
+  size: number // samples per row (1201 for SRTM3, 3601 for SRTM1)
+  data: Buffer
+}
+
+const SRTM_VOID = -32768
+const DEFAULT_TILE_DIR = path.join(process.cwd(), 'data', 'dem')
+// An SRTM1 tile is 25 MB; a 40 km profile needs up to four, so this keeps a few areas warm
+const MAX_CACHED_TILES = 16
+const MAX_CACHED_PROFILES = 200
+
+/**
+ * Reads SRTM `.hgt` elevation tiles from disk.
+ * Tiles must be loaded (see `preloadArea`) before `getElevation` can sample them. Tiles and
+ * profiles are kept in least-recently-used caches.
+ */
+class DemTileReader implements ElevationSampler {
+  private tiles = new Map<string, DemTile | null>()
+  private profileCache = new Map<string, HorizonProfile>()
+
+  constructor(private readonly tileDir: string = process.env.DEM_TILE_DIR || DEFAULT_TILE_DIR) {}
+
+  /**
+   * SRTM tile name for the tile containing a coordinate, e.g. N37W123
+   */
+  getTileName(lat: number, lon: number): string {
+    const latFloor = Math.floor(lat)
+    const lonFloor = Math.floor(lon)
+    const latPrefix = latFloor >= 0 ? 'N' : 'S'
+    const lonPrefix = lonFloor >= 0 ? 'E' : 'W'
+    return `${latPrefix}${String(Math.abs(latFloor)).padStart(2, '0')}${lonPrefix}${String(Math.abs(lonFloor)).padStart(3, '0')}`
+  }
+
+  /**
+   * Load a single tile from disk, caching missing tiles as null
+   */
+  async loadTile(lat: number, lon: number): Promise<DemTile | null> {
+    const name = this.getTileName(lat, lon)
+    if (this.tiles.has(name)) {
+      const cached = this.tiles.get(name) ?? null
+      this.remember(this.tiles, name, cached, MAX_CACHED_TILES)
+      return cached
+    }
+
+    try {
+      const data = await readFile(path.join(this.tileDir, `${name}.hgt`))
+      const size = Math.round(Math.sqrt(data.length / 2))
+
+      if (size * size * 2 !== data.length) {
+        console.warn(`DEM tile ${name} has unexpected size ${data.length}`)
+        this.remember(this.tiles, name, null, MAX_CACHED_TILES)
+        return null
+      }
+
+      const tile: DemTile = {
+        latFloor: Math.floor(lat),
+        lonFloor: Math.floor(lon),
+        size,
+        data
+      }
+      this.remember(this.tiles, name, tile, MAX_CACHED_TILES)
+      return tile
+    } catch (error) {
+      // Missing tiles are expected over oceans and outside the downloaded area
+      this.remember(this.tiles, name, null, MAX_CACHED_TILES)
+      return null
+    }
+  }
+
+  /**
+   * Move an entry to the most recently used end of a cache, evicting the oldest beyond `limit`
+   */
+  private remember<T>(cache: Map<string, T>, key: string, value: T, limit: number) {
+    cache.delete(key)
+    cache.set(key, value)
+    while (cache.size > limit) {
+      cache.delete(cache.keys().next().value!)
+    }
+  }
+
+  /**
+   * Load every tile within a radius of a coordinate
+   */
+  async preloadArea(lat: number, lon: number, radiusMeters: number): Promise<void> {
+    const latSpan = radiusMeters / 111320
+    const lonSpan = radiusMeters / (111320 * Math.max(0.01, Math.cos(lat * Math.PI / 180)))
+    const loads: Promise<DemTile | null>[] = []
+
+    for (let tileLat = Math.floor(lat - latSpan); tileLat <= Math.floor(lat + latSpan); tileLat++) {
+      for (let tileLon = Math.floor(lon - lonSpan); tileLon <= Math.floor(lon + lonSpan); tileLon++) {
+        loads.push(this.loadTile(tileLat, ((tileLon + 540) % 360) - 180))
+      }
+    }
+
+    await Promise.all(loads)
+  }
+
+  /**
+   * Bilinearly interpolated elevation in meters, or null when no data is loaded
+   */
+  getElevation(lat: number, lon: number): number | null {
+    const tile = this.tiles.get(this.getTileName(lat, lon))
+    if (!tile) return null
+
+    const maxIndex = tile.size - 1
+    // Rows run from the northern edge southwards
+    const row = (tile.latFloor + 1 - lat) * maxIndex
+    const col = (lon - tile.lonFloor) * maxIndex
+
+    const row0 = Math.min(maxIndex - 1, Math.max(0, Math.floor(row)))
+    const col0 = Math.min(maxIndex - 1, Math.max(0, Math.floor(col)))
+    const rowFraction = Math.min(1, Math.max(0, row - row0))
+    const colFraction = Math.min(1, Math.max(0, col - col0))
+
+    const h00 = this.readSample(tile, row0, col0)
+    const h01 = this.readSample(tile, row0, col0 + 1)
+    const h10 = this.readSample(tile, row0 + 1, col0)
+    const h11 = this.readSample(tile, row0 + 1, col0 + 1)
+
+    const samples = [h00, h01, h10, h11].filter((h): h is number => h !== null)
+    if (samples.length === 0) return null
+    if (samples.length < 4) {
+      // Void cells: average whatever valid neighbours remain
+      return samples.reduce((sum, h) => sum + h, 0) / samples.length
+    }
+
+    const top = h00! * (1 - colFraction) + h01! * colFraction
+    const bottom = h10! * (1 - colFraction) + h11! * colFraction
+    return top * (1 - rowFraction) + bottom * rowFraction
+  }
+
+  private readSample(tile: DemTile, row: number, col: number): number | null {
+    const value = tile.data.readInt16BE((row * tile.size + col) * 2)
+    return value === SRTM_VOID ? null : value
+  }
+
+  /**
+   * Build (and cache) the horizon profile for a coordinate from the local tiles. Check `hasData`:
+   * without any tiles around the point the profile is a flat 0° horizon.
+   */
+  async getHorizonProfile(lat: number, lon: number, options: HorizonProfileOptions = {}): Promise<HorizonProfile> {
+    const cacheKey = `${lat.toFixed(4)}_${lon.toFixed(4)}_${JSON.stringify(options)}`
+    const cached = this.profileCache.get(cacheKey)
+    if (cached) {
+      this.remember(this.profileCache, cacheKey, cached, MAX_CACHED_PROFILES)
+      return cached
+    }
+
+    await this.preloadArea(lat, lon, options.maxDistance ?? 40000)
+    const profile = buildHorizonProfile(this, lat, lon, options)
+
+    this.remember(this.profileCache, cacheKey, profile, MAX_CACHED_PROFILES)
+    return profile
+  }
+
+  clearCache() {
+    this.tiles.clear()
+    this.profileCache.clear()
+  }
+}
+
+export const demTileReader = new DemTileReader()
+export { DemTileReader }
+export type { DemTile }
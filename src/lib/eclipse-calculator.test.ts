@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { eclipseCalculator, type LocalSolarEclipse } from './eclipse-calculator'
+
+const DAY = { start: new Date('2024-04-08T00:00:00Z'), end: new Date('2024-04-09T00:00:00Z') }
+
+const solarEclipseAt = (lat: number, lon: number, elevation = 0): LocalSolarEclipse =>
+  eclipseCalculator.getEclipsesBetween(DAY.start, DAY.end, lat, lon, elevation)[0] as LocalSolarEclipse
+
+describe('eclipseCalculator.getSolarEclipse', () => {
+  it('matches NASA local circumstances for Dallas on 2024-04-08', () => {
+    const eclipse = solarEclipseAt(32.7767, -96.797, 131)
+    const contact = (name: string) => eclipse.contacts.find(c => c.name === name)!.time.getTime()
+
+    // NASA local circumstances (UT): C1 17:23:17, C2 18:40:43, max 18:42:38, C3 18:44:34, C4 20:02:40, magnitude 1.013
+    expect(eclipse.localType).toBe('total')
+    expect(eclipse.contacts.map(c => c.name)).toEqual(['C1', 'C2', 'max', 'C3', 'C4'])
+    expect(Math.abs(contact('C1') - Date.parse('2024-04-08T17:23:17Z'))).toBeLessThan(30 * 1000)
+    expect(Math.abs(contact('C2') - Date.parse('2024-04-08T18:40:43Z'))).toBeLessThan(15 * 1000)
+    expect(Math.abs(contact('max') - Date.parse('2024-04-08T18:42:38Z'))).toBeLessThan(15 * 1000)
+    expect(Math.abs(contact('C3') - Date.parse('2024-04-08T18:44:34Z'))).toBeLessThan(15 * 1000)
+    expect(Math.abs(contact('C4') - Date.parse('2024-04-08T20:02:40Z'))).toBeLessThan(30 * 1000)
+    expect((contact('C3') - contact('C2')) / 1000).toBeCloseTo(231, -1)
+    expect(eclipse.magnitude).toBeCloseTo(1.013, 2)
+    expect(eclipse.obscuration).toBe(1)
+    expect(eclipse.visible).toBe(true)
+  })
+
+  it('sees only a partial eclipse outside the path of totality', () => {
+    // Houston, about 250 km south of the path
+    const eclipse = solarEclipseAt(29.7604, -95.3698)
+
+    expect(eclipse.localType).toBe('partial')
+    expect(eclipse.contacts.map(c => c.name)).toEqual(['C1', 'max', 'C4'])
+    expect(eclipse.magnitude).toBeGreaterThan(0.9)
+    expect(eclipse.magnitude).toBeLessThan(1)
+    expect(eclipse.obscuration).toBeLessThan(eclipse.magnitude)
+  })
+})
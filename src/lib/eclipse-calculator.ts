@@ -0,0 +1,399 @@
+import eclipseData from '../data/eclipse-elements.json'
+import { solarPositionEngine } from './solar-position'
+import { moonCalculator } from './moon-calculator'
+
+type SolarEclipseType = 'partial' | 'annular' | 'total'
+type LunarEclipseType = 'penumbral' | 'partial' | 'total'
+
+// Polynomial coefficients are in powers of t = hours from t0 (TDT)
+interface SolarEclipseElements {
+  id: string
+  type: SolarEclipseType
+  greatestEclipse: string // ISO 8601, UT
+  t0: string // ISO 8601 without zone, TDT
+  deltaT: number // seconds
+  x: number[]
+  y: number[]
+  d: number[]
+  mu: number[]
+  l1: number[]
+  l2: number[]
+  tanF1: number
+  tanF2: number
+}
+
+interface LunarEclipseElements {
+  id: string
+  type: LunarEclipseType
+  greatestEclipse: string
+  t0: string
+  deltaT: number
+  x: number[]
+  y: number[]
+  f1: number[]
+  f2: number[]
+  moonRadius: number[]
+}
+
+interface EclipseContact {
+  name: 'C1' | 'C2' | 'max' | 'C3' | 'C4' | 'P1' | 'U1' | 'U2' | 'U3' | 'U4' | 'P4'
+  time: Date
+  altitude: number // apparent altitude of the sun (solar) or moon (lunar) in degrees
+  azimuth: number // degrees from North
+}
+
+interface LocalSolarEclipse {
+  kind: 'solar'
+  id: string
+  type: SolarEclipseType // global type of the eclipse
+  localType: SolarEclipseType // what this location sees
+  greatestEclipse: Date // global greatest eclipse
+  contacts: EclipseContact[] // C1, C2/C3 when central here, max, C4
+  magnitude: number // fraction of the sun's diameter covered at maximum
+  obscuration: number // fraction of the sun's area covered at maximum
+  visible: boolean // the sun is up for some part of the eclipse
+}
+
+interface LocalLunarEclipse {
+  kind: 'lunar'
+  id: string
+  type: LunarEclipseType
+  greatestEclipse: Date
+  contacts: EclipseContact[] // P1, U1-U4 as applicable, max, P4; instants are the same worldwide
+  penumbralMagnitude: number
+  umbralMagnitude: number // negative for penumbral eclipses
+  visible: boolean // the moon is up for some part of the umbral phase (penumbral phase if there is none)
+}
+
+type LocalEclipse = LocalSolarEclipse | LocalLunarEclipse
+
+const SOLAR_ECLIPSES = eclipseData.solar as SolarEclipseElements[]
+const LUNAR_ECLIPSES = eclipseData.lunar as LunarEclipseElements[]
+
+const toRad = Math.PI / 180
+
+function evaluate(coefficients: number[], t: number): number {
+  return coefficients.reduceRight((sum, coefficient) => sum * t + coefficient, 0)
+}
+
+function derivative(coefficients: number[], t: number): number {
+  return coefficients.slice(1).reduceRight((sum, coefficient, i) => sum * t + (i + 1) * coefficient, 0)
+}
+
+class EclipseCalculator {
+  /**
+   * Eclipses after a date as seen from a location, nearest first.
+   * Solar eclipses that miss the location entirely are always left out.
+   */
+  getUpcomingEclipses(
+    lat: number,
+    lon: number,
+    from: Date,
+    options: { count?: number; includeInvisible?: boolean; elevation?: number } = {}
+  ): LocalEclipse[] {
+    const { count = 10, includeInvisible = false, elevation = 0 } = options
+    const candidates = this.getCandidates(from.getTime() - 12 * 60 * 60 * 1000, Infinity)
+    const eclipses: LocalEclipse[] = []
+
+    for (const candidate of candidates) {
+      const eclipse = this.getLocalEclipse(candidate, lat, lon, elevation)
+      const end = eclipse?.contacts[eclipse.contacts.length - 1].time
+      if (!eclipse || !end || end.getTime() < from.getTime()) continue
+      if (!includeInvisible && !eclipse.visible) continue
+
+      eclipses.push(eclipse)
+      if (eclipses.length >= count) break
+    }
+
+    return eclipses
+  }
+
+  /**
+   * Eclipses with any part inside a time window (a local day), whether or not they are visible
+   */
+  getEclipsesBetween(start: Date, end: Date, lat: number, lon: number, elevation = 0): LocalEclipse[] {
+    const marginMs = 12 * 60 * 60 * 1000
+    return this.getCandidates(start.getTime() - marginMs, end.getTime() + marginMs)
+      .map(candidate => this.getLocalEclipse(candidate, lat, lon, elevation))
+      .filter((eclipse): eclipse is LocalEclipse => {
+        if (!eclipse) return false
+        const first = eclipse.contacts[0].time.getTime()
+        const last = eclipse.contacts[eclipse.contacts.length - 1].time.getTime()
+        return first < end.getTime() && last >= start.getTime()
+      })
+  }
+
+  /**
+   * Local circumstances of a solar eclipse from its Besselian elements, or null if the
+   * penumbra never reaches the location
+   */
+  getSolarEclipse(elements: SolarEclipseElements, lat: number, lon: number, elevation = 0): LocalSolarEclipse | null {
+    const observer = this.getGeocentricObserver(lat, elevation)
+    const at = (t: number) => this.getSolarGeometry(elements, observer, lon, t)
+
+    const tMax = this.iterate(t => {
+      const g = at(t)
+      return -(g.u * g.a + g.v * g.b) / (g.a * g.a + g.b * g.b)
+    }, 0)
+    if (tMax === null) return null
+
+    const max = at(tMax)
+    const m = Math.hypot(max.u, max.v)
+    if (m >= max.L1) return null
+
+    const central = m < Math.abs(max.L2)
+    const localType: SolarEclipseType = central ? (max.L2 < 0 ? 'total' : 'annular') : 'partial'
+    // How far the moon's far limb reaches across the sun, so it passes 1 inside the path of totality
+    const magnitude = (max.L1 - m) / (max.L1 + max.L2)
+
+    const contactTimes: { name: EclipseContact['name']; t: number | null }[] = [
+      { name: 'C1', t: this.findSolarContact(at, tMax, 'L1', -1) },
+      ...(central ? [{ name: 'C2' as const, t: this.findSolarContact(at, tMax, 'L2', -1) }] : []),
+      { name: 'max', t: tMax },
+      ...(central ? [{ name: 'C3' as const, t: this.findSolarContact(at, tMax, 'L2', 1) }] : []),
+      { name: 'C4', t: this.findSolarContact(at, tMax, 'L1', 1) }
+    ]
+
+    const contacts = contactTimes
+      .filter((contact): contact is { name: EclipseContact['name']; t: number } => contact.t !== null)
+      .map(contact => this.getSunContact(contact.name, this.toInstant(elements, contact.t), lat, lon, elevation))
+
+    return {
+      kind: 'solar',
+      id: elements.id,
+      type: elements.type,
+      localType,
+      greatestEclipse: new Date(elements.greatestEclipse),
+      contacts,
+      magnitude,
+      obscuration: this.calculateObscuration(m, max.L1, max.L2, localType),
+      visible: this.isAboveHorizon(contacts, time => solarPositionEngine.calculate(time, lat, lon, { elevation }).elevation)
+    }
+  }
+
+  /**
+   * Contacts and magnitudes of a lunar eclipse, with the moon's position at each contact
+   */
+  getLunarEclipse(elements: LunarEclipseElements, lat: number, lon: number): LocalLunarEclipse {
+    const at = (t: number) => ({
+      x: evaluate(elements.x, t),
+      y: evaluate(elements.y, t),
+      dx: derivative(elements.x, t),
+      dy: derivative(elements.y, t),
+      penumbra: evaluate(elements.f1, t),
+      umbra: evaluate(elements.f2, t),
+      moonRadius: evaluate(elements.moonRadius, t)
+    })
+
+    const tMax = this.iterate(t => {
+      const g = at(t)
+      return -(g.x * g.dx + g.y * g.dy) / (g.dx * g.dx + g.dy * g.dy)
+    }, 0) ?? 0
+    const max = at(tMax)
+    const distance = Math.hypot(max.x, max.y)
+
+    // Moon center distance from the shadow axis when a limb touches the shadow edge
+    const contactAt = (radius: (g: ReturnType<typeof at>) => number, direction: -1 | 1) =>
+      this.findContact(t => {
+        const g = at(t)
+        return { u: g.x, v: g.y, a: g.dx, b: g.dy, L: radius(g) }
+      }, tMax, direction)
+
+    const contactTimes: { name: EclipseContact['name']; t: number | null }[] = [
+      { name: 'P1', t: contactAt(g => g.penumbra + g.moonRadius, -1) },
+      { name: 'U1', t: contactAt(g => g.umbra + g.moonRadius, -1) },
+      { name: 'U2', t: contactAt(g => g.umbra - g.moonRadius, -1) },
+      { name: 'max', t: tMax },
+      { name: 'U3', t: contactAt(g => g.umbra - g.moonRadius, 1) },
+      { name: 'U4', t: contactAt(g => g.umbra + g.moonRadius, 1) },
+      { name: 'P4', t: contactAt(g => g.penumbra + g.moonRadius, 1) }
+    ]
+
+    const contacts = contactTimes
+      .filter((contact): contact is { name: EclipseContact['name']; t: number } => contact.t !== null)
+      .map(contact => {
+        const time = this.toInstant(elements, contact.t)
+        const position = moonCalculator.getMoonPosition(time, lat, lon)
+        return { name: contact.name, time, altitude: position.altitude, azimuth: position.azimuth }
+      })
+
+    // Judge visibility on the umbral phase when there is one: a penumbral shading is barely noticeable
+    const umbral = contacts.filter(contact => contact.name.startsWith('U') || contact.name === 'max')
+    const window = umbral.length > 1 ? umbral : contacts
+
+    return {
+      kind: 'lunar',
+      id: elements.id,
+      type: elements.type,
+      greatestEclipse: new Date(elements.greatestEclipse),
+      contacts,
+      penumbralMagnitude: (max.penumbra + max.moonRadius - distance) / (2 * max.moonRadius),
+      umbralMagnitude: (max.umbra + max.moonRadius - distance) / (2 * max.moonRadius),
+      visible: this.isAboveHorizon(window, time => moonCalculator.getMoonPosition(time, lat, lon).altitude)
+    }
+  }
+
+  private getLocalEclipse(
+    candidate: { kind: 'solar'; elements: SolarEclipseElements } | { kind: 'lunar'; elements: LunarEclipseElements },
+    lat: number,
+    lon: number,
+    elevation: number
+  ): LocalEclipse | null {
+    return candidate.kind === 'solar'
+      ? this.getSolarEclipse(candidate.elements, lat, lon, elevation)
+      : this.getLunarEclipse(candidate.elements, lat, lon)
+  }
+
+  /**
+   * Eclipses whose greatest eclipse falls in a time range, in date order
+   */
+  private getCandidates(
+    from: number,
+    to: number
+  ): ({ kind: 'solar'; elements: SolarEclipseElements } | { kind: 'lunar'; elements: LunarEclipseElements })[] {
+    const inRange = (elements: { greatestEclipse: string }) => {
+      const time = Date.parse(elements.greatestEclipse)
+      return time >= from && time <= to
+    }
+
+    return [
+      ...SOLAR_ECLIPSES.filter(inRange).map(elements => ({ kind: 'solar' as const, elements })),
+      ...LUNAR_ECLIPSES.filter(inRange).map(elements => ({ kind: 'lunar' as const, elements }))
+    ].sort((a, b) => Date.parse(a.elements.greatestEclipse) - Date.parse(b.elements.greatestEclipse))
+  }
+
+  /**
+   * Observer's geocentric coordinates in Earth radii
+   */
+  private getGeocentricObserver(lat: number, elevation: number): { rhoSin: number; rhoCos: number } {
+    const u = Math.atan(0.99664719 * Math.tan(lat * toRad))
+    return {
+      rhoSin: 0.99664719 * Math.sin(u) + (elevation / 6378140) * Math.sin(lat * toRad),
+      rhoCos: Math.cos(u) + (elevation / 6378140) * Math.cos(lat * toRad)
+    }
+  }
+
+  /**
+   * Observer's position relative to the shadow axis in the fundamental plane at t
+   */
+  private getSolarGeometry(
+    elements: SolarEclipseElements,
+    observer: { rhoSin: number; rhoCos: number },
+    lon: number,
+    t: number
+  ): { u: number; v: number; a: number; b: number; L1: number; L2: number } {
+    const d = evaluate(elements.d, t) * toRad
+    const dPrime = derivative(elements.d, t) * toRad
+    const muPrime = derivative(elements.mu, t) * toRad
+    // Local hour angle of the shadow axis, east longitudes positive
+    const h = (evaluate(elements.mu, t) + lon - 0.00417807 * elements.deltaT) * toRad
+
+    const xi = observer.rhoCos * Math.sin(h)
+    const eta = observer.rhoSin * Math.cos(d) - observer.rhoCos * Math.cos(h) * Math.sin(d)
+    const zeta = observer.rhoSin * Math.sin(d) + observer.rhoCos * Math.cos(h) * Math.cos(d)
+    const xiPrime = muPrime * observer.rhoCos * Math.cos(h)
+    const etaPrime = muPrime * xi * Math.sin(d) - zeta * dPrime
+
+    return {
+      u: evaluate(elements.x, t) - xi,
+      v: evaluate(elements.y, t) - eta,
+      a: derivative(elements.x, t) - xiPrime,
+      b: derivative(elements.y, t) - etaPrime,
+      L1: evaluate(elements.l1, t) - zeta * elements.tanF1,
+      L2: evaluate(elements.l2, t) - zeta * elements.tanF2
+    }
+  }
+
+  private findSolarContact(
+    at: (t: number) => ReturnType<EclipseCalculator['getSolarGeometry']>,
+    tMax: number,
+    shadow: 'L1' | 'L2',
+    direction: -1 | 1
+  ): number | null {
+    return this.findContact(t => {
+      const g = at(t)
+      return { u: g.u, v: g.v, a: g.a, b: g.b, L: Math.abs(g[shadow]) }
+    }, tMax, direction)
+  }
+
+  /**
+   * Time at which the distance from the axis equals the shadow radius L, before (-1) or after (1) maximum
+   */
+  private findContact(
+    geometry: (t: number) => { u: number; v: number; a: number; b: number; L: number },
+    tMax: number,
+    direction: -1 | 1
+  ): number | null {
+    return this.iterate(t => {
+      const { u, v, a, b, L } = geometry(t)
+      const n = Math.hypot(a, b)
+      const s = (a * v - u * b) / (n * L)
+      if (Math.abs(s) > 1) return NaN
+      return -(u * a + v * b) / (n * n) + direction * (L / n) * Math.sqrt(1 - s * s)
+    }, tMax)
+  }
+
+  /**
+   * Repeat t += step(t) until the step is below a tenth of a second
+   */
+  private iterate(step: (t: number) => number, start: number): number | null {
+    let t = start
+    for (let i = 0; i < 20; i++) {
+      const tau = step(t)
+      if (isNaN(tau)) return null
+      t += tau
+      if (Math.abs(tau) < 0.1 / 3600) return t
+    }
+    return null
+  }
+
+  /**
+   * Fraction of the sun's area hidden by the moon, from the penumbral and umbral radii
+   */
+  private calculateObscuration(m: number, L1: number, L2: number, localType: SolarEclipseType): number {
+    const ratio = (L1 - L2) / (L1 + L2) // moon/sun apparent diameter ratio
+    if (localType === 'total') return 1
+    if (localType === 'annular') return ratio * ratio
+
+    const c = Math.acos(Math.min(1, Math.max(-1, (L1 * L1 + L2 * L2 - 2 * m * m) / (L1 * L1 - L2 * L2))))
+    const b = Math.acos(Math.min(1, Math.max(-1, (L1 * L2 + m * m) / (m * (L1 + L2)))))
+    const a = Math.PI - (b + c)
+    return (ratio * ratio * a + b - ratio * Math.sin(c)) / Math.PI
+  }
+
+  private toInstant(elements: { t0: string; deltaT: number }, t: number): Date {
+    return new Date(Date.parse(`${elements.t0}Z`) + t * 60 * 60 * 1000 - elements.deltaT * 1000)
+  }
+
+  private getSunContact(name: EclipseContact['name'], time: Date, lat: number, lon: number, elevation: number): EclipseContact {
+    const position = solarPositionEngine.calculate(time, lat, lon, { elevation })
+    return { name, time, altitude: position.elevation, azimuth: position.azimuth }
+  }
+
+  /**
+   * Whether the body clears the horizon at any point between the first and last contact
+   */
+  private isAboveHorizon(contacts: EclipseContact[], altitudeAt: (time: Date) => number): boolean {
+    if (contacts.some(contact => contact.altitude > 0)) return true
+    if (contacts.length < 2) return false
+
+    const stepMs = 5 * 60 * 1000
+    const last = contacts[contacts.length - 1].time.getTime()
+    for (let time = contacts[0].time.getTime() + stepMs; time < last; time += stepMs) {
+      if (altitudeAt(new Date(time)) > 0) return true
+    }
+    return false
+  }
+}
+
+export const eclipseCalculator = new EclipseCalculator()
+export type {
+  SolarEclipseType,
+  LunarEclipseType,
+  SolarEclipseElements,
+  LunarEclipseElements,
+  EclipseContact,
+  LocalSolarEclipse,
+  LocalLunarEclipse,
+  LocalEclipse
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { exposureCalculator, EXPOSURE_PRESETS } from './exposure-calculator'
+import { sunCalculator } from './sun-calculator'
+
+const LONDON = { lat: 51.5074, lon: -0.1278 }
+
+describe('exposureCalculator.getExposure', () => {
+  const noon = sunCalculator.getSunTimes('2025-06-21', LONDON.lat, LONDON.lon, { timezone: 'Europe/London' }).solarNoon!
+
+  it('meters a clear midsummer noon near sunny 16', () => {
+    const exposure = exposureCalculator.getExposure(noon, LONDON.lat, LONDON.lon, { clouds: 0 })
+
+    expect(exposure.sunAltitude).toBeCloseTo(61.9, 1)
+    expect(exposure.illuminance).toBeGreaterThan(95000)
+    expect(exposure.illuminance).toBeLessThan(110000)
+    expect(exposure.lighting).toEqual({ front: 15.5, side: 14.6, back: 12.3 })
+    expect(exposure.presets.landscape.front).toEqual({ ev: 15.5, aperture: 8, shutterSpeed: 1 / 640, shutterLabel: '1/640', iso: 100 })
+  })
+
+  it('flattens and darkens the light under full overcast', () => {
+    const exposure = exposureCalculator.getExposure(noon, LONDON.lat, LONDON.lon, { clouds: 100 })
+
+    // No direct beam, so the subject's side doesn't matter; a quarter of the light is two stops down
+    expect(exposure.lighting).toEqual({ front: 13.3, side: 13.3, back: 13.3 })
+    expect(exposure.presets.landscape.front.shutterLabel).toBe('1/160')
+  })
+
+  it('holds the EV at the night-sky floor once the sun is past astronomical twilight', () => {
+    const midnight = exposureCalculator.getExposure(new Date('2025-12-21T00:00:00Z'), LONDON.lat, LONDON.lon, { clouds: 0 })
+    const lateDusk = exposureCalculator.getExposure(new Date('2025-12-20T19:00:00Z'), LONDON.lat, LONDON.lon, { clouds: 0 })
+
+    expect(midnight.sunAltitude).toBeLessThan(-60)
+    expect(lateDusk.sunAltitude).toBeLessThan(-18)
+    expect(midnight.lighting).toEqual({ front: -12, side: -12, back: -12 })
+    expect(lateDusk.lighting).toEqual(midnight.lighting)
+  })
+
+  it('clamps night settings to each preset and warns about the long shutter', () => {
+    const { presets } = exposureCalculator.getExposure(new Date('2025-12-21T00:00:00Z'), LONDON.lat, LONDON.lon, { clouds: 0 })
+
+    for (const name of ['landscape', 'portrait', 'street'] as const) {
+      expect(presets[name].front.aperture).toBe(EXPOSURE_PRESETS[name].minAperture)
+      expect(presets[name].front.iso).toBe(EXPOSURE_PRESETS[name].maxIso)
+      expect(presets[name].front.shutterSpeed).toBeGreaterThan(30)
+      expect(presets[name].front.warning).toBe('Longer than 30 s - use bulb mode on a tripod')
+    }
+  })
+})
+
+describe('exposureCalculator.getSettings', () => {
+  it('keeps the preferred aperture while the shutter range allows', () => {
+    expect(exposureCalculator.getSettings(15, EXPOSURE_PRESETS.landscape))
+      .toEqual({ ev: 15, aperture: 8, shutterSpeed: 1 / 500, shutterLabel: '1/500', iso: 100 })
+  })
+
+  it('stops down to the preset limit and asks for an ND filter in glare', () => {
+    expect(exposureCalculator.getSettings(20, EXPOSURE_PRESETS.street)).toEqual({
+      ev: 20,
+      aperture: 16,
+      shutterSpeed: 1 / 4000,
+      shutterLabel: '1/4000',
+      iso: 100,
+      warning: 'Too bright for these settings - use an ND filter'
+    })
+  })
+
+  it('meters no light at all as a finite EV', () => {
+    expect(exposureCalculator.illuminanceToEV(0)).toBeCloseTo(Math.log2(1e-6 * 100 / 250))
+  })
+})
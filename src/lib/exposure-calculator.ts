@@ -0,0 +1,203 @@
+import { lightModel, type LightConditions } from './light-model'
+
+type SubjectLighting = 'front' | 'side' | 'back'
+type ExposurePresetName = 'landscape' | 'portrait' | 'street'
+
+interface ExposurePreset {
+  label: string
+  aperture: number // preferred f-number
+  minAperture: number // widest f-number the preset will open to
+  maxAperture: number // narrowest f-number the preset will stop down to
+  minShutter: number // fastest shutter in seconds
+  maxShutter: number // slowest shutter in seconds before raising ISO
+  minIso: number
+  maxIso: number
+}
+
+interface ExposureSettings {
+  ev: number // EV at ISO 100 the settings are solved for
+  aperture: number
+  shutterSpeed: number // seconds
+  shutterLabel: string // e.g. "1/250" or "2s"
+  iso: number
+  warning?: string
+}
+
+interface ExposureRecommendation {
+  time: Date
+  sunAltitude: number // apparent altitude in degrees
+  illuminance: number // lux on the horizontal
+  lighting: Record<SubjectLighting, number> // scene EV at ISO 100
+  presets: Record<ExposurePresetName, Record<SubjectLighting, ExposureSettings>>
+}
+
+// Incident-light meter calibration constant (ISO 2720, flat receptor)
+const INCIDENT_CALIBRATION = 250
+
+const EXPOSURE_PRESETS: Record<ExposurePresetName, ExposurePreset> = {
+  landscape: {
+    label: 'Landscape (tripod, deep focus)',
+    aperture: 8,
+    minAperture: 5.6,
+    maxAperture: 16,
+    minShutter: 1 / 4000,
+    maxShutter: 30,
+    minIso: 100,
+    maxIso: 3200
+  },
+  portrait: {
+    label: 'Portrait (shallow depth of field)',
+    aperture: 2.8,
+    minAperture: 1.8,
+    maxAperture: 11,
+    minShutter: 1 / 8000,
+    maxShutter: 1 / 125,
+    minIso: 100,
+    maxIso: 6400
+  },
+  street: {
+    label: 'Street (handheld, motion-stopping)',
+    aperture: 8,
+    minAperture: 4,
+    maxAperture: 16,
+    minShutter: 1 / 4000,
+    maxShutter: 1 / 250,
+    minIso: 100,
+    maxIso: 12800
+  }
+}
+
+// Third-stop camera scales
+const APERTURES = [1.4, 1.6, 1.8, 2, 2.2, 2.5, 2.8, 3.2, 3.5, 4, 4.5, 5, 5.6, 6.3, 7.1, 8, 9, 10, 11, 13, 14, 16, 18, 20, 22]
+const ISOS = [100, 125, 160, 200, 250, 320, 400, 500, 640, 800, 1000, 1250, 1600, 2000, 2500, 3200, 4000, 5000, 6400, 8000, 10000, 12800]
+const SHUTTER_DENOMINATORS = [8000, 6400, 5000, 4000, 3200, 2500, 2000, 1600, 1250, 1000, 800, 640, 500, 400, 320, 250, 200, 160, 125, 100, 80, 60, 50, 40, 30, 25, 20, 15, 13, 10, 8, 6, 5, 4, 3]
+const SHUTTER_SPEEDS = [
+  ...SHUTTER_DENOMINATORS.map(denominator => 1 / denominator),
+  0.4, 0.5, 0.6, 0.8, 1, 1.3, 1.6, 2, 2.5, 3.2, 4, 5, 6, 8, 10, 13, 15, 20, 25, 30
+]
+
+class ExposureCalculator {
+  /**
+   * Scene EV and matched camera settings for subjects lit from the front, side and back
+   */
+  getExposure(time: Date, lat: number, lon: number, weather?: LightConditions | null): ExposureRecommendation {
+    const light = lightModel.getLightSample(time, lat, lon, weather)
+    const lighting = this.getSubjectLighting(light.directIlluminance, light.diffuseIlluminance)
+
+    const presets = {} as ExposureRecommendation['presets']
+    for (const name of Object.keys(EXPOSURE_PRESETS) as ExposurePresetName[]) {
+      presets[name] = {
+        front: this.getSettings(lighting.front, EXPOSURE_PRESETS[name]),
+        side: this.getSettings(lighting.side, EXPOSURE_PRESETS[name]),
+        back: this.getSettings(lighting.back, EXPOSURE_PRESETS[name])
+      }
+    }
+
+    return {
+      time,
+      sunAltitude: light.sunAltitude,
+      illuminance: light.illuminance,
+      lighting: {
+        front: Math.round(lighting.front * 10) / 10,
+        side: Math.round(lighting.side * 10) / 10,
+        back: Math.round(lighting.back * 10) / 10
+      },
+      presets
+    }
+  }
+
+  /**
+   * EV at ISO 100 for the lit side of the subject. Side light reaches half the subject
+   * and back light leaves the visible side in skylight only.
+   */
+  getSubjectLighting(direct: number, diffuse: number): Record<SubjectLighting, number> {
+    return {
+      front: this.illuminanceToEV(direct + diffuse),
+      side: this.illuminanceToEV(direct / 2 + diffuse),
+      back: this.illuminanceToEV(diffuse)
+    }
+  }
+
+  /**
+   * Incident-light EV at ISO 100 for an illuminance in lux
+   */
+  illuminanceToEV(lux: number): number {
+    return Math.log2(Math.max(lux, 1e-6) * 100 / INCIDENT_CALIBRATION)
+  }
+
+  /**
+   * Solve aperture, shutter and ISO for a scene EV, keeping the preset's preferred aperture
+   * until the shutter range runs out, then changing aperture and finally ISO.
+   */
+  getSettings(ev: number, preset: ExposurePreset): ExposureSettings {
+    const roundedEV = Math.round(ev * 10) / 10
+    let aperture = preset.aperture
+    let iso = preset.minIso
+    let shutter = this.shutterFor(ev, aperture, iso)
+    let warning: string | undefined
+    // Each step lands exactly on a range limit, so allow for floating-point drift past it
+    const slowest = preset.maxShutter * 1.001
+
+    if (shutter < preset.minShutter) {
+      // Too bright: stop down, then accept overexposure (or an ND filter)
+      shutter = preset.minShutter
+      aperture = Math.min(Math.sqrt(shutter * Math.pow(2, ev) * iso / 100), preset.maxAperture)
+      if (this.shutterFor(ev, aperture, iso) < preset.minShutter / 1.001) {
+        warning = 'Too bright for these settings - use an ND filter'
+      }
+    } else if (shutter > slowest) {
+      // Too dark: open up, then raise ISO, then let the shutter run long
+      aperture = Math.max(Math.sqrt(preset.maxShutter * Math.pow(2, ev) * iso / 100), preset.minAperture)
+      shutter = this.shutterFor(ev, aperture, iso)
+
+      if (shutter > slowest) {
+        iso = Math.min(100 * aperture * aperture / (preset.maxShutter * Math.pow(2, ev)), preset.maxIso)
+        shutter = this.shutterFor(ev, aperture, iso)
+      }
+      if (shutter > slowest) {
+        warning = shutter > 30
+          ? 'Longer than 30 s - use bulb mode on a tripod'
+          : 'Shutter is slower than this preset allows - brace the camera or use a tripod'
+      }
+    }
+
+    aperture = this.nearest(APERTURES, aperture)
+    iso = this.nearest(ISOS, iso)
+    shutter = shutter > 30 ? Math.round(shutter) : this.nearest(SHUTTER_SPEEDS, shutter)
+
+    return {
+      ev: roundedEV,
+      aperture,
+      shutterSpeed: shutter,
+      shutterLabel: this.formatShutter(shutter),
+      iso,
+      ...(warning && { warning })
+    }
+  }
+
+  private shutterFor(ev: number, aperture: number, iso: number): number {
+    return (aperture * aperture) / Math.pow(2, ev) * (100 / iso)
+  }
+
+  // Camera scales are geometric, so compare in stops
+  private nearest(scale: number[], value: number): number {
+    return scale.reduce((best, candidate) =>
+      Math.abs(Math.log2(candidate / value)) < Math.abs(Math.log2(best / value)) ? candidate : best
+    )
+  }
+
+  private formatShutter(seconds: number): string {
+    if (seconds < 0.3) return `1/${Math.round(1 / seconds)}`
+    return `${Number(seconds.toFixed(1))}s`
+  }
+}
+
+export const exposureCalculator = new ExposureCalculator()
+export { EXPOSURE_PRESETS }
+export type {
+  SubjectLighting,
+  ExposurePresetName,
+  ExposurePreset,
+  ExposureSettings,
+  ExposureRecommendation
+}
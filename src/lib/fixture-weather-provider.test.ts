@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { FixedClock } from './clock'
+import { FixtureWeatherProvider, type WeatherFixture } from './fixture-weather-provider'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const fixture: WeatherFixture = {
+  generatedAt: '2025-06-01T12:00:00.000Z',
+  current: {
+    time: '2025-06-01T12:00:00.000Z',
+    temp: 20,
+    condition: 'Clouds',
+    description: 'few clouds',
+    clouds: 20,
+    visibility: 10,
+    humidity: 54,
+    windSpeed: 2,
+    uvIndex: 6,
+    sunrise: '2025-06-01T03:49:00.000Z',
+    sunset: '2025-06-01T20:11:00.000Z'
+  },
+  forecast: {
+    hourly: [
+      {
+        time: '2025-06-01T18:00:00.000Z',
+        temp: 17,
+        condition: 'Clear',
+        description: 'clear sky',
+        clouds: 0,
+        visibility: 10,
+        humidity: 60,
+        windSpeed: 1,
+        uvIndex: 0
+      }
+    ],
+    daily: [
+      {
+        time: '2025-06-01T12:00:00.000Z',
+        date: '2025-06-01T00:00:00.000Z',
+        temp: 18,
+        tempMin: 9,
+        tempMax: 21,
+        condition: 'Clouds',
+        description: 'few clouds',
+        clouds: 20,
+        visibility: 10,
+        humidity: 60,
+        windSpeed: 3,
+        uvIndex: 6
+      }
+    ]
+  }
+}
+
+describe('FixtureWeatherProvider', () => {
+  it('moves the recording onto the clock’s day by whole days', async () => {
+    const clock = new FixedClock('2025-07-15T09:30:00Z')
+    const provider = new FixtureWeatherProvider({ fixture, clock })
+    const snapshot = await provider.getWeather(51.5074, -0.1278)
+    const shift = 44 * DAY
+
+    expect(snapshot.provider).toBe('fixture')
+    expect(snapshot.fetchedAt).toEqual(clock.now())
+    expect(snapshot.current.time).toEqual(new Date(Date.parse(fixture.current.time) + shift))
+    expect(snapshot.current.sunrise).toEqual(new Date(Date.parse(fixture.current.sunrise!) + shift))
+    expect(snapshot.forecast.hourly[0].time).toEqual(new Date('2025-07-15T18:00:00Z'))
+    expect(snapshot.forecast.daily[0].date).toEqual(new Date('2025-07-15T00:00:00Z'))
+    expect(snapshot.forecast.daily[0].tempMax).toBe(21)
+  })
+
+  it('keeps recorded dates when rebasing is off', async () => {
+    const provider = new FixtureWeatherProvider({ fixture, clock: new FixedClock('2025-07-15T09:30:00Z'), rebase: false })
+    const snapshot = await provider.getWeather(51.5074, -0.1278)
+
+    expect(snapshot.current.time).toEqual(new Date(fixture.current.time))
+  })
+
+  it('fills in missing sunrise and sunset for the location', async () => {
+    const provider = new FixtureWeatherProvider({ fixture, clock: new FixedClock('2025-06-01T12:00:00Z') })
+    const { forecast } = await provider.getWeather(51.5074, -0.1278)
+    const { sunrise, sunset } = forecast.hourly[0]
+
+    // London on 1 June: about 03:44 and 20:11 UTC
+    expect(Math.abs(sunrise.getTime() - Date.parse('2025-06-01T03:44:00Z'))).toBeLessThan(10 * 60 * 1000)
+    expect(Math.abs(sunset.getTime() - Date.parse('2025-06-01T20:11:00Z'))).toBeLessThan(10 * 60 * 1000)
+  })
+
+  it('falls back to solar noon where the sun never sets', async () => {
+    const provider = new FixtureWeatherProvider({ fixture, clock: new FixedClock('2025-06-21T12:00:00Z') })
+    const { forecast } = await provider.getWeather(78.2232, 15.6267)
+    const { sunrise, sunset } = forecast.hourly[0]
+
+    expect(sunrise).toBeInstanceOf(Date)
+    expect(isNaN(sunrise.getTime())).toBe(false)
+    expect(sunrise).toEqual(sunset)
+    // Longyearbyen's solar noon is near 11:00 UTC
+    expect(Math.abs(sunrise.getTime() - Date.parse('2025-06-21T11:00:00Z'))).toBeLessThan(HOUR)
+  })
+})
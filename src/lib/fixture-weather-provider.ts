@@ -0,0 +1,108 @@
+import defaultFixture from '../data/weather-fixture.json'
+import type { DailyWeather, WeatherData, WeatherSnapshot } from '@/types/weather'
+import { systemClock, type Clock } from './clock'
+import { getSunEvents, type WeatherProvider } from './weather-provider'
+
+// WeatherData as stored in JSON: dates are ISO strings, sunrise and sunset may be left out
+type FixtureWeatherData = Omit<WeatherData, 'sunrise' | 'sunset' | 'time'> & {
+  time: string
+  sunrise?: string
+  sunset?: string
+}
+
+type FixtureDailyWeather = FixtureWeatherData & Pick<DailyWeather, 'tempMin' | 'tempMax'> & {
+  date: string
+}
+
+interface WeatherFixture {
+  generatedAt: string // ISO time the fixture's "now" corresponds to
+  current: FixtureWeatherData
+  forecast: {
+    hourly: FixtureWeatherData[]
+    daily: FixtureDailyWeather[]
+  }
+}
+
+interface FixtureWeatherProviderOptions {
+  fixture?: WeatherFixture // inline data, takes precedence over path
+  path?: string // JSON file to read on the server, defaults to WEATHER_FIXTURE_PATH
+  clock?: Clock
+  rebase?: boolean // move the fixture's dates onto the clock's current day, default true
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Serves recorded weather from a JSON file so the app runs without network access or API keys
+ */
+class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture' as const
+
+  private readonly clock: Clock
+  private readonly path: string | undefined
+  private readonly rebase: boolean
+  private fixture: WeatherFixture | undefined
+
+  constructor(options: FixtureWeatherProviderOptions = {}) {
+    this.fixture = options.fixture
+    this.path = options.path ?? process.env.WEATHER_FIXTURE_PATH
+    this.clock = options.clock ?? systemClock
+    this.rebase = options.rebase ?? true
+  }
+
+  async getWeather(lat: number, lon: number): Promise<WeatherSnapshot> {
+    const fixture = await this.loadFixture()
+    const now = this.clock.now()
+    // Shift by whole days so the fixture's time-of-day pattern stays where it was recorded
+    const shift = this.rebase
+      ? Math.round((now.getTime() - Date.parse(fixture.generatedAt)) / DAY_MS) * DAY_MS
+      : 0
+
+    const toDate = (iso: string) => new Date(Date.parse(iso) + shift)
+    const toWeatherData = (entry: FixtureWeatherData): WeatherData => {
+      const time = toDate(entry.time)
+      const sunEvents = getSunEvents(time, lat, lon)
+
+      return {
+        ...entry,
+        time,
+        sunrise: entry.sunrise ? toDate(entry.sunrise) : sunEvents.sunrise,
+        sunset: entry.sunset ? toDate(entry.sunset) : sunEvents.sunset
+      }
+    }
+
+    return {
+      provider: this.name,
+      fetchedAt: now,
+      current: toWeatherData(fixture.current),
+      forecast: {
+        hourly: fixture.forecast.hourly.map(toWeatherData),
+        daily: fixture.forecast.daily.map(entry => ({
+          ...toWeatherData(entry),
+          tempMin: entry.tempMin,
+          tempMax: entry.tempMax,
+          date: toDate(entry.date)
+        }))
+      }
+    }
+  }
+
+  private async loadFixture(): Promise<WeatherFixture> {
+    if (this.fixture) {
+      return this.fixture
+    }
+
+    if (this.path) {
+      // Only reachable on the server; the bundled fixture covers the browser
+      const { readFile } = await import(/* webpackIgnore: true */ 'fs/promises')
+      this.fixture = JSON.parse(await readFile(this.path, 'utf8')) as WeatherFixture
+    } else {
+      this.fixture = defaultFixture as WeatherFixture
+    }
+
+    return this.fixture
+  }
+}
+
+export { FixtureWeatherProvider }
+export type { FixtureWeatherProviderOptions, WeatherFixture }
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { FixedClock } from './clock'
+import { FixtureWeatherProvider, type WeatherFixture } from './fixture-weather-provider'
+import { fogPredictor } from './fog-predictor'
+import { sunCalculator } from './sun-calculator'
+import { WeatherService } from './weather-service'
+
+const HOUR = 60 * 60 * 1000
+const LONDON = { lat: 51.5074, lon: -0.1278 }
+const EVENING = Date.parse('2025-09-19T18:00:00Z')
+
+type Reading = WeatherFixture['current']
+
+// Hourly readings from 18:00 UTC to 09:00 the next morning, shaped by the hour's index
+const night = (shape: (i: number) => Partial<Reading>): Reading[] =>
+  Array.from({ length: 16 }, (_, i) => ({
+    time: new Date(EVENING + i * HOUR).toISOString(),
+    temp: 14,
+    condition: 'Clear',
+    description: 'clear sky',
+    clouds: 10,
+    visibility: 10,
+    humidity: 70,
+    windSpeed: 1,
+    uvIndex: 0,
+    ...shape(i)
+  }))
+
+const serviceFor = (readings: Reading[]) => new WeatherService(new FixtureWeatherProvider({
+  fixture: {
+    generatedAt: readings[0].time,
+    current: readings[0],
+    forecast: { hourly: readings.slice(1), daily: [] }
+  },
+  clock: new FixedClock(EVENING),
+  rebase: false
+}))
+
+// The air cools from 14°C to a 7°C dew point by dawn
+const closing = (i: number): Partial<Reading> => {
+  const temp = Math.max(7.4, 14 - i * 0.6)
+  return { temp, dewPoint: 7, humidity: Math.round(100 - (temp - 7) * 5) }
+}
+
+describe('WeatherService.getFogForecast', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('expects fog in the golden hour after a calm night that cools to the dew point', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const fog = await serviceFor(night(closing)).getFogForecast(LONDON.lat, LONDON.lon, '2025-09-20', { timezone: 'Europe/London' })
+    const { morning } = sunCalculator.getGoldenHourPeriods('2025-09-20', LONDON.lat, LONDON.lon, { timezone: 'Europe/London' })
+
+    expect(fog!.target).toEqual(new Date((morning!.start.getTime() + morning!.end.getTime()) / 2))
+    expect(fog!.conditions.dewPointSpread).toBeCloseTo(0.4, 1)
+    expect(fog!.conditions.spreadTrend).toBeGreaterThan(3)
+    expect(fog!.conditions.dewPointEstimated).toBe(false)
+    expect(fog!.likelihood).toBeGreaterThanOrEqual(90)
+    expect(fog!.level).toBe('likely')
+    expect(fog!.leadTime).toBeCloseTo((fog!.target.getTime() - EVENING) / HOUR, 1)
+    expect(fog!.notes).toContain('Air is forecast to reach saturation by dawn')
+  })
+
+  it('rules fog out when the same night is windy', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const fog = await serviceFor(night(i => ({ ...closing(i), windSpeed: 7 })))
+      .getFogForecast(LONDON.lat, LONDON.lon, '2025-09-20', { timezone: 'Europe/London' })
+
+    expect(fog!.likelihood).toBe(0)
+    expect(fog!.level).toBe('unlikely')
+    expect(fog!.notes).toContain('Wind will keep the air mixed')
+  })
+
+  it('rules fog out when the air stays dry', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const fog = await serviceFor(night(i => ({ temp: 14 - i * 0.1, dewPoint: 3, humidity: 48 })))
+      .getFogForecast(LONDON.lat, LONDON.lon, '2025-09-20', { timezone: 'Europe/London' })
+
+    expect(fog!.conditions.dewPointSpread).toBeGreaterThan(9)
+    expect(fog!.likelihood).toBeLessThan(15)
+    expect(fog!.level).toBe('unlikely')
+  })
+
+  it('has no forecast for a morning past the end of the series', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const fog = await serviceFor(night(closing)).getFogForecast(LONDON.lat, LONDON.lon, '2025-09-22', { timezone: 'Europe/London' })
+
+    expect(fog).toBeNull()
+  })
+})
+
+describe('fogPredictor.getDewPoint', () => {
+  it('derives the dew point from humidity when it is not reported', () => {
+    const [reading] = night(() => ({ temp: 20, humidity: 50 }))
+
+    // Magnus formula: 20°C at 50% is about 9.3°C
+    expect(fogPredictor.getDewPoint({ ...reading, time: new Date(reading.time), sunrise: new Date(), sunset: new Date() }))
+      .toBeCloseTo(9.3, 1)
+  })
+})
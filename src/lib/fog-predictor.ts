@@ -0,0 +1,148 @@
+import type { WeatherData } from '@/types/weather'
+
+type FogLevel = 'likely' | 'possible' | 'unlikely'
+type FogConfidence = 'high' | 'medium' | 'low'
+
+interface FogInput {
+  target: Date // when the fog matters, usually the middle of the morning golden hour
+  entries: WeatherData[] // forecast series covering the night before `target`
+  fetchedAt: Date // when the forecast was issued, for the lead time
+  step: number // ms between forecast entries
+}
+
+interface FogForecast {
+  target: Date
+  likelihood: number // 0-100
+  level: FogLevel
+  range: {
+    low: number // 0-100
+    high: number // 0-100
+  }
+  confidence: FogConfidence
+  leadTime: number // hours from the forecast to `target`
+  conditions: {
+    dewPointSpread: number // °C at dawn, temperature minus dew point
+    spreadTrend: number // °C the spread closes over the night; positive means air nearing saturation
+    windSpeed: number // m/s, overnight mean
+    clouds: number // percent, overnight mean
+    humidity: number // percent at dawn
+    dewPointEstimated: boolean // true when derived from humidity instead of reported
+  }
+  notes: string[]
+}
+
+// Radiation fog forms as the ground cools through a clear, calm night
+const NIGHT_HOURS = 12
+
+/**
+ * Predicts overnight radiation fog from the forecast series leading up to the morning
+ */
+class FogPredictor {
+  /**
+   * Fog likelihood at `target` with a confidence band, or null when the series doesn't cover the night
+   */
+  predict({ target, entries, fetchedAt, step }: FogInput): FogForecast | null {
+    const time = target.getTime()
+    const nightStart = time - NIGHT_HOURS * 60 * 60 * 1000
+    const night = entries
+      .filter(entry => entry.time && entry.time.getTime() >= nightStart && entry.time.getTime() <= time + step / 2)
+      .sort((a, b) => a.time!.getTime() - b.time!.getTime())
+
+    if (night.length < 2 || night[night.length - 1].time!.getTime() < time - step) {
+      return null
+    }
+
+    const dawn = night[night.length - 1]
+    const spreads = night.map(entry => entry.temp - this.getDewPoint(entry))
+    const dewPointSpread = Math.min(...spreads.slice(-2))
+    const spreadTrend = spreads[0] - dewPointSpread
+    const windSpeed = night.reduce((sum, entry) => sum + entry.windSpeed, 0) / night.length
+    // Models often show forming fog as low cloud, so only cloud above it counts against cooling
+    const clouds = night.reduce((sum, entry) =>
+      sum + (entry.cloudLayers ? Math.max(entry.cloudLayers.mid, entry.cloudLayers.high) : entry.clouds), 0
+    ) / night.length
+    const dewPointEstimated = night.some(entry => entry.dewPoint === undefined)
+
+    const spreadFactor = this.clamp((4 - dewPointSpread) / 3.5)
+    const humidityFactor = this.clamp((dawn.humidity - 75) / 20)
+    const trendFactor = this.clamp(0.3 + spreadTrend / 5)
+    // Wind mixes the cooled layer away and cloud keeps the ground from cooling; either can stop fog outright
+    const windFactor = this.clamp((5 - windSpeed) / 4)
+    const cloudFactor = Math.max(0.15, this.clamp((90 - clouds) / 60))
+
+    const likelihood = Math.round(
+      100 * (0.5 * spreadFactor + 0.3 * humidityFactor + 0.2 * trendFactor) * windFactor * cloudFactor
+    )
+
+    // Further out and coarser series are less certain; so is a dew point rebuilt from humidity
+    const leadTime = Math.max(0, Math.round((time - fetchedAt.getTime()) / 360000) / 10)
+    const margin = Math.min(40, Math.round(
+      8 + leadTime / 4 + (step >= 3 * 60 * 60 * 1000 ? 7 : 0) + (dewPointEstimated ? 5 : 0)
+    ))
+
+    return {
+      target,
+      likelihood,
+      level: likelihood >= 60 ? 'likely' : likelihood >= 30 ? 'possible' : 'unlikely',
+      range: {
+        low: Math.max(0, likelihood - margin),
+        high: Math.min(100, likelihood + margin)
+      },
+      confidence: margin <= 15 ? 'high' : margin <= 25 ? 'medium' : 'low',
+      leadTime,
+      conditions: {
+        dewPointSpread: Math.round(dewPointSpread * 10) / 10,
+        spreadTrend: Math.round(spreadTrend * 10) / 10,
+        windSpeed: Math.round(windSpeed * 10) / 10,
+        clouds: Math.round(clouds),
+        humidity: dawn.humidity,
+        dewPointEstimated
+      },
+      notes: this.getNotes(dewPointSpread, spreadTrend, windSpeed, clouds)
+    }
+  }
+
+  /**
+   * Dew point as reported, or from temperature and relative humidity (Magnus formula)
+   */
+  getDewPoint(weather: WeatherData): number {
+    if (weather.dewPoint !== undefined) {
+      return weather.dewPoint
+    }
+
+    const a = 17.62
+    const b = 243.12
+    const gamma = Math.log(Math.max(1, weather.humidity) / 100) + (a * weather.temp) / (b + weather.temp)
+    return (b * gamma) / (a - gamma)
+  }
+
+  private getNotes(spread: number, trend: number, windSpeed: number, clouds: number): string[] {
+    const notes: string[] = []
+
+    if (spread <= 1) notes.push('Air is forecast to reach saturation by dawn')
+    else if (spread <= 2.5) notes.push('Temperature falls close to the dew point by dawn')
+    else notes.push(`Air stays ${Math.round(spread)}°C above the dew point`)
+
+    if (trend >= 3) notes.push('Spread closes steadily overnight')
+
+    if (windSpeed <= 1.5) notes.push('Calm night lets a cool layer settle in low ground')
+    else if (windSpeed > 4) notes.push('Wind will keep the air mixed')
+
+    if (clouds >= 70) notes.push('Cloud cover will hold the warmth in')
+    else if (clouds <= 30) notes.push('Clear skies allow strong overnight cooling')
+
+    return notes
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value))
+  }
+}
+
+export const fogPredictor = new FogPredictor()
+export type {
+  FogLevel,
+  FogConfidence,
+  FogInput,
+  FogForecast
+}
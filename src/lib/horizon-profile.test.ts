@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { buildHorizonProfile, getHorizonAltitude, type ElevationSampler } from './horizon-profile'
+
+const ORIGIN = { lat: 51.5, lon: -0.12 }
+
+// A 500 m high north-south wall 5-6 km east of the origin, flat sea-level ground everywhere else
+const ridge: ElevationSampler = {
+  getElevation(lat, lon) {
+    const east = (lon - ORIGIN.lon) * 111320 * Math.cos(ORIGIN.lat * Math.PI / 180)
+    return east >= 5000 && east <= 6000 ? 500 : 0
+  }
+}
+
+describe('buildHorizonProfile', () => {
+  const profile = buildHorizonProfile(ridge, ORIGIN.lat, ORIGIN.lon)
+
+  it('raises the horizon toward the ridge by its height over distance', () => {
+    // atan((500 m - 1.7 m eye height) / ~5 km), less a little curvature
+    expect(getHorizonAltitude(profile, 90)).toBeGreaterThan(5.5)
+    expect(getHorizonAltitude(profile, 90)).toBeLessThan(5.7)
+    expect(profile.distances[90]).toBeGreaterThanOrEqual(5000)
+    expect(profile.distances[90]).toBeLessThan(5100)
+    expect(profile.hasData).toBe(true)
+  })
+
+  it('leaves open ground near 0°, dipped slightly by the eye height and curvature', () => {
+    expect(getHorizonAltitude(profile, 270)).toBeLessThan(0)
+    expect(getHorizonAltitude(profile, 270)).toBeCloseTo(0, 1)
+  })
+
+  it('sees the ridge further away, and so lower, off its perpendicular', () => {
+    expect(getHorizonAltitude(profile, 45)).toBeLessThan(getHorizonAltitude(profile, 90))
+    expect(getHorizonAltitude(profile, 45)).toBeGreaterThan(0)
+  })
+
+  it('flags a flat stand-in horizon when there is no elevation data', () => {
+    const empty = buildHorizonProfile({ getElevation: () => null }, ORIGIN.lat, ORIGIN.lon)
+
+    expect(empty.hasData).toBe(false)
+    expect(empty.altitudes.every(altitude => altitude === 0)).toBe(true)
+  })
+})
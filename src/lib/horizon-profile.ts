@@ -0,0 +1,135 @@
+interface HorizonProfile {
+  lat: number
+  lon: number
+  observerElevation: number // meters above sea level (ground + observer height)
+  azimuthStep: number // degrees between samples
+  maxDistance: number // meters scanned along each ray
+  altitudes: number[] // obstruction elevation angle per azimuth, degrees
+  distances: number[] // distance to the highest obstruction per azimuth, meters
+  hasData: boolean // false when no elevation was found at all, leaving a flat 0° horizon
+}
+
+interface ElevationSampler {
+  getElevation(lat: number, lon: number): number | null
+}
+
+interface HorizonProfileOptions {
+  observerHeight?: number // meters above ground
+  azimuthStep?: number // degrees
+  maxDistance?: number // meters
+  minDistance?: number // meters
+}
+
+const EARTH_RADIUS = 6371000 // meters
+const REFRACTION_COEFFICIENT = 0.13 // standard terrestrial refraction
+
+const DEFAULT_OPTIONS: Required<HorizonProfileOptions> = {
+  observerHeight: 1.7,
+  azimuthStep: 1,
+  maxDistance: 40000,
+  minDistance: 60
+}
+
+/**
+ * How far Earth's curvature drops a point below the observer's eye line over a distance, less
+ * the little that terrestrial refraction lifts it back, in meters
+ */
+function getCurvatureDrop(distance: number): number {
+  return (distance * distance) / (2 * EARTH_RADIUS) * (1 - REFRACTION_COEFFICIENT)
+}
+
+/**
+ * Move along a great circle from a point by a bearing and a distance
+ */
+function destinationPoint(lat: number, lon: number, bearing: number, distance: number): { lat: number; lon: number } {
+  const toRad = Math.PI / 180
+  const angular = distance / EARTH_RADIUS
+  const phi1 = lat * toRad
+  const lambda1 = lon * toRad
+  const theta = bearing * toRad
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(angular) + Math.cos(phi1) * Math.sin(angular) * Math.cos(theta)
+  )
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(phi1),
+    Math.cos(angular) - Math.sin(phi1) * Math.sin(phi2)
+  )
+
+  return {
+    lat: phi2 / toRad,
+    lon: ((lambda2 / toRad + 540) % 360) - 180
+  }
+}
+
+/**
+ * Build a 360° obstruction profile by marching rays outward over an elevation model
+ */
+function buildHorizonProfile(
+  sampler: ElevationSampler,
+  lat: number,
+  lon: number,
+  options: HorizonProfileOptions = {}
+): HorizonProfile {
+  const { observerHeight, azimuthStep, maxDistance, minDistance } = { ...DEFAULT_OPTIONS, ...options }
+  const groundElevation = sampler.getElevation(lat, lon) ?? 0
+  const observerElevation = groundElevation + observerHeight
+
+  const altitudes: number[] = []
+  const distances: number[] = []
+  let hasData = sampler.getElevation(lat, lon) !== null
+
+  for (let azimuth = 0; azimuth < 360; azimuth += azimuthStep) {
+    let maxAngle = -Infinity
+    let maxAngleDistance = 0
+
+    // Step size grows with distance: nearby terrain needs fine sampling, far ridges do not
+    for (let distance = minDistance; distance <= maxDistance; distance += Math.max(30, distance * 0.02)) {
+      const point = destinationPoint(lat, lon, azimuth, distance)
+      const elevation = sampler.getElevation(point.lat, point.lon)
+      if (elevation === null) continue
+      hasData = true
+
+      const angle = Math.atan2(elevation - getCurvatureDrop(distance) - observerElevation, distance) * 180 / Math.PI
+
+      if (angle > maxAngle) {
+        maxAngle = angle
+        maxAngleDistance = distance
+      }
+    }
+
+    // Without any terrain data along the ray, fall back to a flat horizon
+    altitudes.push(Number.isFinite(maxAngle) ? maxAngle : 0)
+    distances.push(maxAngleDistance)
+  }
+
+  return {
+    lat,
+    lon,
+    observerElevation,
+    azimuthStep,
+    maxDistance,
+    altitudes,
+    distances,
+    hasData
+  }
+}
+
+/**
+ * Obstruction elevation angle at an azimuth, linearly interpolated between samples
+ */
+function getHorizonAltitude(profile: HorizonProfile, azimuth: number): number {
+  const count = profile.altitudes.length
+  if (count === 0) return 0
+
+  const normalized = ((azimuth % 360) + 360) % 360
+  const position = normalized / profile.azimuthStep
+  const lower = Math.floor(position) % count
+  const upper = (lower + 1) % count
+  const fraction = position - Math.floor(position)
+
+  return profile.altitudes[lower] * (1 - fraction) + profile.altitudes[upper] * fraction
+}
+
+export { buildHorizonProfile, getHorizonAltitude, getCurvatureDrop, destinationPoint, EARTH_RADIUS }
+export type { HorizonProfile, ElevationSampler, HorizonProfileOptions }
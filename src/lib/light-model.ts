@@ -0,0 +1,246 @@
+import { sunCalculator, type SunCalculationOptions } from './sun-calculator'
+import { solarPositionEngine } from './solar-position'
+import type { DayInput } from './timezone-utils'
+import type { WeatherData } from '@/types/weather'
+
+type LightConditions = Partial<Pick<WeatherData, 'clouds' | 'humidity' | 'visibility'>>
+
+interface LightModelOptions extends SunCalculationOptions {
+  stepMinutes?: number // time between samples, default 10
+  weather?: LightConditions | null
+}
+
+interface LightSample {
+  time: Date
+  sunAltitude: number // apparent altitude in degrees
+  airMass: number | null // null while the sun is below the horizon
+  directColorTemperature: number | null // Kelvin, direct sunlight only
+  colorTemperature: number // Kelvin, direct sunlight mixed with skylight as it falls on a subject facing the sun
+  illuminance: number // estimated horizontal illuminance in lux
+  directIlluminance: number // lux on a surface facing the sun, from the sun alone
+  diffuseIlluminance: number // lux from the sky and clouds
+  relativeIlluminance: number // 0-1, relative to the brightest sample of the day
+}
+
+interface LightCurve {
+  date: Date // local midnight
+  localDate: string
+  timezone: string
+  samples: LightSample[]
+}
+
+const SOLAR_ILLUMINANCE = 128000 // lux, direct sunlight above the atmosphere
+const SUN_TEMPERATURE = 5778 // Kelvin
+const ANGSTROM_ALPHA = 1.3
+const CLEAR_AEROSOL_BETA = 0.05 // Ångström turbidity of a clean continental atmosphere
+const AEROSOL_SCALE_HEIGHT = 1.2 // km
+const MAX_REPORTED_VISIBILITY = 10 // km; weather APIs cap visibility here, so it says nothing about haze
+
+// Skylight color temperatures (Kelvin): clear blue sky by day, deep blue twilight, overcast
+const CLEAR_SKY_TEMPERATURE = 10000
+const TWILIGHT_SKY_TEMPERATURE = 14000
+const OVERCAST_TEMPERATURE = 6500
+
+// log10(lux) of clear-sky horizontal illuminance from twilight through sunrise
+const TWILIGHT_ILLUMINANCE: [number, number][] = [
+  [-18, -3.2],
+  [-12, -2.1],
+  [-9, -0.6],
+  [-6, 0.53],
+  [-3, 1.9],
+  [-0.833, 2.6],
+  [0, 2.87]
+]
+
+const WAVELENGTHS = Array.from({ length: 41 }, (_, i) => 380 + i * 10) // nm
+
+/**
+ * Piecewise Gaussian fit to the CIE 1931 color matching functions (Wyman, Sloan & Shirley, 2013)
+ */
+function colorMatching(wavelength: number): [number, number, number] {
+  const g = (mu: number, sigma1: number, sigma2: number) => {
+    const t = (wavelength - mu) / (wavelength < mu ? sigma1 : sigma2)
+    return Math.exp(-0.5 * t * t)
+  }
+
+  return [
+    1.056 * g(599.8, 37.9, 31.0) + 0.362 * g(442.0, 16.0, 26.7) - 0.065 * g(501.1, 20.4, 26.2),
+    0.821 * g(568.8, 46.9, 40.5) + 0.286 * g(530.9, 16.3, 31.1),
+    1.217 * g(437.0, 11.8, 36.0) + 0.681 * g(459.0, 26.0, 13.8)
+  ]
+}
+
+const COLOR_MATCHING = WAVELENGTHS.map(colorMatching)
+
+// Planck spectrum of the sun, scaled so only its shape matters
+const SOLAR_SPECTRUM = WAVELENGTHS.map(wavelength => {
+  const meters = wavelength * 1e-9
+  return 1 / (Math.pow(meters, 5) * (Math.exp(0.014388 / (meters * SUN_TEMPERATURE)) - 1))
+})
+
+const SOLAR_LUMINANCE = SOLAR_SPECTRUM.reduce((sum, power, i) => sum + power * COLOR_MATCHING[i][1], 0)
+
+class LightModel {
+  /**
+   * Relative optical path length through the atmosphere (Kasten & Young, 1989)
+   */
+  getAirMass(altitude: number): number | null {
+    if (altitude < -0.833) return null
+    const zenith = 90 - Math.max(altitude, 0)
+    return 1 / (Math.cos(zenith * Math.PI / 180) + 0.50572 * Math.pow(96.07995 - zenith, -1.6364))
+  }
+
+  /**
+   * Color temperature and luminous transmission of the direct beam after Rayleigh and aerosol extinction
+   */
+  getDirectBeam(airMass: number, weather?: LightConditions | null): { colorTemperature: number; transmission: number } {
+    const beta = this.getTurbidity(weather)
+
+    let X = 0
+    let Y = 0
+    let Z = 0
+    WAVELENGTHS.forEach((wavelength, i) => {
+      const micrometers = wavelength / 1000
+      const rayleigh = 0.008735 * Math.pow(micrometers, -4.08)
+      const aerosol = beta * Math.pow(micrometers, -ANGSTROM_ALPHA)
+      const power = SOLAR_SPECTRUM[i] * Math.exp(-(rayleigh + aerosol) * airMass)
+      X += power * COLOR_MATCHING[i][0]
+      Y += power * COLOR_MATCHING[i][1]
+      Z += power * COLOR_MATCHING[i][2]
+    })
+
+    return {
+      colorTemperature: this.chromaticityToTemperature(X / (X + Y + Z), Y / (X + Y + Z)),
+      transmission: Y / SOLAR_LUMINANCE
+    }
+  }
+
+  /**
+   * Light at one instant: direct beam from air mass, skylight from the sun's altitude, both scaled by cloud cover
+   */
+  getLightSample(time: Date, lat: number, lon: number, weather?: LightConditions | null): Omit<LightSample, 'relativeIlluminance'> {
+    const geometric = sunCalculator.getSunPosition(time, lat, lon).altitude
+    const sunAltitude = geometric + solarPositionEngine.getRefraction(geometric)
+    const airMass = this.getAirMass(sunAltitude)
+    const cloudCover = Math.min(Math.max((weather?.clouds ?? 0) / 100, 0), 1)
+
+    const skyTemperature = this.mixTemperatures(
+      [sunAltitude > 0 ? CLEAR_SKY_TEMPERATURE : TWILIGHT_SKY_TEMPERATURE, 1 - cloudCover],
+      [OVERCAST_TEMPERATURE, cloudCover]
+    )
+    const twilight = Math.pow(10, this.interpolateTwilight(sunAltitude))
+    // Kasten & Czeplak: overcast skies pass about a quarter of the clear-sky light
+    const cloudFactor = 1 - 0.75 * Math.pow(cloudCover, 3.4)
+
+    if (airMass === null || sunAltitude <= 0) {
+      return {
+        time,
+        sunAltitude,
+        airMass,
+        directColorTemperature: null,
+        colorTemperature: Math.round(skyTemperature),
+        illuminance: twilight * cloudFactor,
+        directIlluminance: 0,
+        diffuseIlluminance: twilight * cloudFactor
+      }
+    }
+
+    const beam = this.getDirectBeam(airMass, weather)
+    const sinAltitude = Math.sin(sunAltitude * Math.PI / 180)
+    // The sun is hidden behind cloud for roughly the covered fraction of the sky
+    const direct = SOLAR_ILLUMINANCE * beam.transmission * sinAltitude * (1 - cloudCover)
+    // About half of the light scattered out of the beam reaches the ground as skylight
+    const clearDiffuse = 0.5 * SOLAR_ILLUMINANCE * (1 - beam.transmission) * sinAltitude + twilight
+    const total = Math.max(SOLAR_ILLUMINANCE * beam.transmission * sinAltitude + clearDiffuse, 1) * cloudFactor
+    const diffuse = Math.max(total - direct, 0)
+    // A subject facing the sun takes the full beam, not just its horizontal share
+    const directOnSubject = direct / sinAltitude
+
+    return {
+      time,
+      sunAltitude,
+      airMass,
+      directColorTemperature: Math.round(beam.colorTemperature),
+      colorTemperature: Math.round(this.mixTemperatures([beam.colorTemperature, directOnSubject], [skyTemperature, diffuse])),
+      illuminance: total,
+      directIlluminance: directOnSubject,
+      diffuseIlluminance: diffuse
+    }
+  }
+
+  /**
+   * Color temperature and illuminance through the local day, ready to chart
+   */
+  getLightCurve(date: DayInput, lat: number, lon: number, options: LightModelOptions = {}): LightCurve {
+    const day = sunCalculator.resolveDay(date, options)
+    const stepMs = (options.stepMinutes ?? 10) * 60 * 1000
+    const samples: Omit<LightSample, 'relativeIlluminance'>[] = []
+
+    for (let time = day.start.getTime(); time <= day.end.getTime(); time += stepMs) {
+      samples.push(this.getLightSample(new Date(time), lat, lon, options.weather))
+    }
+
+    const peak = Math.max(...samples.map(sample => sample.illuminance), 1e-6)
+
+    return {
+      date: day.start,
+      localDate: day.key,
+      timezone: day.timezone,
+      samples: samples.map(sample => ({ ...sample, relativeIlluminance: sample.illuminance / peak }))
+    }
+  }
+
+  /**
+   * Ångström turbidity coefficient from reported visibility, or from humidity when visibility is unknown
+   */
+  getTurbidity(weather?: LightConditions | null): number {
+    // Aerosols swell in humid air, raising turbidity (Hänel growth)
+    const relativeHumidity = Math.min(Math.max((weather?.humidity ?? 50) / 100, 0), 0.95)
+    const humidityBeta = CLEAR_AEROSOL_BETA * Math.pow(1 - relativeHumidity, -0.3) / Math.pow(0.5, -0.3)
+
+    const visibility = weather?.visibility
+    if (!visibility || visibility <= 0 || visibility >= MAX_REPORTED_VISIBILITY) return humidityBeta
+
+    // Koschmieder: extinction at 550 nm is 3.912 / visibility, less the Rayleigh share
+    const opticalDepth = Math.max(3.912 / visibility - 0.0116, 0) * AEROSOL_SCALE_HEIGHT
+    return Math.max(humidityBeta, opticalDepth * Math.pow(0.55, ANGSTROM_ALPHA))
+  }
+
+  /**
+   * Correlated color temperature from CIE 1931 chromaticity (McCamy, 1992)
+   */
+  private chromaticityToTemperature(x: number, y: number): number {
+    const n = (x - 0.332) / (0.1858 - y)
+    const temperature = 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33
+    return Math.min(Math.max(temperature, 1000), 25000)
+  }
+
+  /**
+   * Weighted mix of light sources, averaged in mireds where color mixing is close to linear
+   */
+  private mixTemperatures(...sources: [number, number][]): number {
+    const weight = sources.reduce((sum, [, w]) => sum + w, 0)
+    if (weight <= 0) return sources[0][0]
+    const mireds = sources.reduce((sum, [temperature, w]) => sum + (1e6 / temperature) * w, 0) / weight
+    return 1e6 / mireds
+  }
+
+  private interpolateTwilight(altitude: number): number {
+    const table = TWILIGHT_ILLUMINANCE
+    if (altitude <= table[0][0]) return table[0][1]
+    if (altitude >= table[table.length - 1][0]) return table[table.length - 1][1]
+
+    const upper = table.findIndex(([tableAltitude]) => tableAltitude >= altitude)
+    const [a0, v0] = table[upper - 1]
+    const [a1, v1] = table[upper]
+    return v0 + (v1 - v0) * (altitude - a0) / (a1 - a0)
+  }
+}
+
+export const lightModel = new LightModel()
+export type {
+  LightConditions,
+  LightModelOptions,
+  LightSample,
+  LightCurve
+}
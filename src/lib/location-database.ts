@@ -449,6 +449,17 @@ export class LocationDatabase {
     return nearest;
   }
 
+  /**
+   * Get the timezone of the nearest known location, if one is close enough to share it
+   */
+  getTimezone(lat: number, lon: number, maxDistanceKm: number = 300): string | null {
+    const nearest = this.findNearestCity(lat, lon);
+    if (!nearest) return null;
+
+    const distance = this.calculateDistance(lat, lon, nearest.lat, nearest.lon);
+    return distance <= maxDistanceKm ? nearest.timezone : null;
+  }
+
   /**
    * Get popular photography destinations
    */
@@ -0,0 +1,260 @@
+import { sunCalculator } from './sun-calculator'
+import { moonCalculator } from './moon-calculator'
+import { solarPositionEngine } from './solar-position'
+import { LOCATION_DATABASE, type LocationEntry } from './location-database'
+import { addDays, resolveTimeZone, type DayInput } from './timezone-utils'
+
+interface MilkyWayPlannerOptions {
+  minAltitude?: number // degrees the galactic center must clear, default 10
+  minDuration?: number // minutes; shorter windows are dropped, default 20
+  stepMinutes?: number // sampling resolution, default 5
+  timezone?: string // IANA zone that defines which evening a night belongs to
+}
+
+interface MilkyWayMoonConditions {
+  illumination: number // illuminated fraction 0-1 at the middle of the window
+  maxAltitude: number // highest moon altitude during the window, degrees
+  upFraction: number // share of the window with the moon above the horizon, 0-1
+}
+
+interface MilkyWayWindow {
+  localDate: string // YYYY-MM-DD of the evening the night starts on
+  start: Date
+  end: Date
+  duration: number // in minutes
+  peak: {
+    time: Date
+    altitude: number // degrees
+    azimuth: number // degrees from North
+  }
+  moon: MilkyWayMoonConditions
+  score: number // 0-100, dark moonless nights with a high core score best
+  quality: 'excellent' | 'good' | 'fair' | 'poor'
+}
+
+interface MilkyWayMonth {
+  month: number // 1-12
+  bestNights: MilkyWayWindow[]
+}
+
+interface MilkyWaySeason {
+  location: Pick<LocationEntry, 'id' | 'city' | 'country' | 'lat' | 'lon' | 'timezone'>
+  year: number
+  months: MilkyWayMonth[]
+}
+
+// Sagittarius A*, J2000. Precession moves it well under a degree this century, less than the core's own extent
+const GALACTIC_CENTER = {
+  rightAscension: 266.41683, // degrees
+  declination: -29.00781 // degrees
+}
+
+const DEFAULT_OPTIONS = {
+  minAltitude: 10,
+  minDuration: 20,
+  stepMinutes: 5
+}
+
+const MAX_RANGE_DAYS = 400
+const toRad = Math.PI / 180
+
+class MilkyWayPlanner {
+  /**
+   * Altitude and azimuth of the galactic center, without refraction
+   */
+  getGalacticCenterPosition(date: Date, lat: number, lon: number): { altitude: number; azimuth: number } {
+    const jd = solarPositionEngine.getJulianDay(date)
+    // Mean sidereal time is plenty for an extended target like the core
+    const siderealTime = 280.46061837 + 360.98564736629 * (jd - 2451545)
+    const hourAngle = (siderealTime + lon - GALACTIC_CENTER.rightAscension) * toRad
+    const declination = GALACTIC_CENTER.declination * toRad
+    const phi = lat * toRad
+
+    const altitude = Math.asin(
+      Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+    )
+    const azimuth = Math.atan2(
+      Math.sin(hourAngle),
+      Math.cos(hourAngle) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi)
+    ) / toRad + 180
+
+    return { altitude: altitude / toRad, azimuth: ((azimuth % 360) + 360) % 360 }
+  }
+
+  /**
+   * Galactic core windows for every night from `start` to `end` (evening dates, inclusive)
+   */
+  findWindows(lat: number, lon: number, start: DayInput, end: DayInput, options: MilkyWayPlannerOptions = {}): MilkyWayWindow[] {
+    const timezone = resolveTimeZone(options.timezone)
+    const firstDay = sunCalculator.resolveDay(start, { timezone }).key
+    const lastDay = sunCalculator.resolveDay(end, { timezone }).key
+
+    if (lastDay < firstDay) {
+      throw new Error('End date must not be before start date')
+    }
+
+    const windows: MilkyWayWindow[] = []
+    for (let day = firstDay, count = 0; day <= lastDay; day = addDays(day, 1), count++) {
+      if (count >= MAX_RANGE_DAYS) {
+        throw new Error(`Date range must not exceed ${MAX_RANGE_DAYS} days`)
+      }
+      const window = this.getNightWindow(day, lat, lon, { ...options, timezone })
+      if (window) windows.push(window)
+    }
+
+    return windows
+  }
+
+  /**
+   * The longest stretch of the night starting on `date` with the core above `minAltitude`
+   * during astronomical darkness, or null when there is none
+   */
+  getNightWindow(date: DayInput, lat: number, lon: number, options: MilkyWayPlannerOptions = {}): MilkyWayWindow | null {
+    const { minAltitude, minDuration, stepMinutes } = { ...DEFAULT_OPTIONS, ...options }
+    const day = sunCalculator.resolveDay(date, options)
+    const night = this.getAstronomicalNight(day.key, lat, lon, options)
+    if (!night) return null
+
+    const stepMs = stepMinutes * 60 * 1000
+    let best: { start: number; end: number } | null = null
+    let runStart: number | null = null
+
+    for (let time = night.start.getTime(); time <= night.end.getTime() + stepMs; time += stepMs) {
+      const sampleTime = Math.min(time, night.end.getTime())
+      const visible = time <= night.end.getTime() &&
+        this.getGalacticCenterPosition(new Date(sampleTime), lat, lon).altitude >= minAltitude
+
+      if (visible && runStart === null) {
+        runStart = sampleTime
+      } else if (!visible && runStart !== null) {
+        const runEnd = Math.min(time - stepMs, night.end.getTime())
+        if (!best || runEnd - runStart > best.end - best.start) best = { start: runStart, end: runEnd }
+        runStart = null
+      }
+    }
+
+    if (!best || (best.end - best.start) / 60000 < minDuration) return null
+
+    return this.describeWindow(day.key, new Date(best.start), new Date(best.end), lat, lon, stepMs)
+  }
+
+  /**
+   * Best nights per month of `year` for every location in the database
+   */
+  getSeasonView(year: number, options: Omit<MilkyWayPlannerOptions, 'timezone'> & { nightsPerMonth?: number } = {}): MilkyWaySeason[] {
+    const { nightsPerMonth = 3, ...plannerOptions } = options
+
+    return LOCATION_DATABASE.map(location => {
+      const windows = this.findWindows(location.lat, location.lon, `${year}-01-01`, `${year}-12-31`, {
+        ...plannerOptions,
+        timezone: location.timezone
+      })
+
+      const months: MilkyWayMonth[] = Array.from({ length: 12 }, (_, i) => ({
+        month: i + 1,
+        bestNights: windows
+          .filter(window => Number(window.localDate.slice(5, 7)) === i + 1)
+          .sort((a, b) => b.score - a.score || b.duration - a.duration)
+          .slice(0, nightsPerMonth)
+      }))
+
+      return {
+        location: {
+          id: location.id,
+          city: location.city,
+          country: location.country,
+          lat: location.lat,
+          lon: location.lon,
+          timezone: location.timezone
+        },
+        year,
+        months
+      }
+    })
+  }
+
+  /**
+   * Astronomical dusk on `localDate` to astronomical dawn the next morning. Under polar night
+   * SunCalc has neither, and the whole noon-to-noon span is dark.
+   */
+  private getAstronomicalNight(localDate: string, lat: number, lon: number, options: MilkyWayPlannerOptions): { start: Date; end: Date } | null {
+    const tonight = sunCalculator.getSunTimes(localDate, lat, lon, options)
+    const tomorrow = sunCalculator.getSunTimes(addDays(localDate, 1), lat, lon, options)
+
+    if (tonight.night && tomorrow.nightEnd && tomorrow.nightEnd > tonight.night) {
+      return { start: tonight.night, end: tomorrow.nightEnd }
+    }
+
+    if (!tonight.night && !tomorrow.nightEnd &&
+        sunCalculator.getSunPosition(tonight.solarNoon, lat, lon).altitude < -18) {
+      return { start: tonight.solarNoon, end: tomorrow.solarNoon }
+    }
+
+    return null
+  }
+
+  private describeWindow(localDate: string, start: Date, end: Date, lat: number, lon: number, stepMs: number): MilkyWayWindow {
+    let peak = { time: start, ...this.getGalacticCenterPosition(start, lat, lon) }
+    let moonUp = 0
+    let moonMaxAltitude = -90
+    let moonlight = 0
+    let samples = 0
+
+    const middle = new Date((start.getTime() + end.getTime()) / 2)
+    const illumination = moonCalculator.getMoonPhase(middle).illumination
+
+    for (let time = start.getTime(); time <= end.getTime(); time += stepMs) {
+      const instant = new Date(time)
+      const core = this.getGalacticCenterPosition(instant, lat, lon)
+      if (core.altitude > peak.altitude) peak = { time: instant, ...core }
+
+      const moonAltitude = moonCalculator.getMoonPosition(instant, lat, lon).altitude
+      moonMaxAltitude = Math.max(moonMaxAltitude, moonAltitude)
+      if (moonAltitude > 0) {
+        moonUp++
+        // A moon low in the sky washes out far less than one high overhead
+        moonlight += illumination * (0.4 + 0.6 * Math.sin(moonAltitude * toRad))
+      }
+      samples++
+    }
+
+    const duration = Math.round((end.getTime() - start.getTime()) / 60000)
+    const moon: MilkyWayMoonConditions = {
+      illumination,
+      maxAltitude: moonMaxAltitude,
+      upFraction: moonUp / samples
+    }
+
+    return {
+      localDate,
+      start,
+      end,
+      duration,
+      peak,
+      moon,
+      ...this.scoreWindow(moonlight / samples, peak.altitude, duration)
+    }
+  }
+
+  /**
+   * Mostly moonlight, then how high the core climbs and how long it stays up
+   */
+  private scoreWindow(moonlight: number, peakAltitude: number, duration: number): Pick<MilkyWayWindow, 'score' | 'quality'> {
+    const darkness = 1 - Math.min(moonlight, 1)
+    const height = Math.min(Math.max(peakAltitude, 0) / 30, 1)
+    const length = Math.min(duration / 120, 1)
+    const score = Math.round(100 * (0.7 * darkness + 0.2 * height + 0.1 * length))
+
+    const quality = score >= 80 ? 'excellent' : score >= 60 ? 'good' : score >= 40 ? 'fair' : 'poor'
+    return { score, quality }
+  }
+}
+
+export const milkyWayPlanner = new MilkyWayPlanner()
+export type {
+  MilkyWayPlannerOptions,
+  MilkyWayMoonConditions,
+  MilkyWayWindow,
+  MilkyWayMonth,
+  MilkyWaySeason
+}
@@ -0,0 +1,187 @@
+import * as SunCalc from 'suncalc'
+import { refineCrossing } from './crossing-search'
+import { getZonedDay, resolveTimeZone, type DayInput } from './timezone-utils'
+
+type MoonPhaseName =
+  | 'New Moon'
+  | 'Waxing Crescent'
+  | 'First Quarter'
+  | 'Waxing Gibbous'
+  | 'Full Moon'
+  | 'Waning Gibbous'
+  | 'Last Quarter'
+  | 'Waning Crescent'
+
+interface MoonPosition {
+  azimuth: number // degrees from North (0-360)
+  altitude: number // degrees above horizon, refraction corrected
+  distance: number // distance to moon in km
+  parallacticAngle: number // degrees
+  angularDiameter: number // apparent size in arcminutes
+}
+
+interface MoonPhase {
+  name: MoonPhaseName
+  phase: number // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  illumination: number // illuminated fraction 0-1
+  angle: number // midpoint angle of the illuminated limb in degrees
+  waxing: boolean
+}
+
+interface MoonTimes {
+  rise: Date | null
+  set: Date | null
+  alwaysUp: boolean
+  alwaysDown: boolean
+}
+
+interface MoonInfo {
+  date: Date
+  times: MoonTimes
+  phase: MoonPhase
+  position: MoonPosition
+  riseAzimuth: number | null // degrees from North
+  setAzimuth: number | null // degrees from North
+  apparentSize: {
+    angularDiameter: number // arcminutes
+    relativeToAverage: number // 1 = average distance, > 1 larger than usual
+    isSupermoon: boolean
+  }
+}
+
+const PHASE_NAMES: MoonPhaseName[] = [
+  'New Moon',
+  'Waxing Crescent',
+  'First Quarter',
+  'Waxing Gibbous',
+  'Full Moon',
+  'Waning Gibbous',
+  'Last Quarter',
+  'Waning Crescent'
+]
+
+class MoonCalculator {
+  private readonly MOON_RADIUS = 1737.4 // km
+  private readonly AVERAGE_DISTANCE = 384400 // km
+  private readonly SUPERMOON_DISTANCE = 362000 // km, common perigee-full-moon threshold
+  private readonly RISE_SET_ALTITUDE = 0.133 // degrees, SunCalc's moonrise/moonset threshold
+
+  /**
+   * Get moon position for a given time and location
+   */
+  getMoonPosition(date: Date, lat: number, lon: number): MoonPosition {
+    // SunCalc 2 reports degrees, azimuth from North, altitude with refraction
+    const position = SunCalc.getMoonPosition(date, lat, lon)
+
+    return {
+      azimuth: ((position.azimuth % 360) + 360) % 360,
+      altitude: position.altitude,
+      distance: position.distance,
+      parallacticAngle: position.parallacticAngle,
+      angularDiameter: this.calculateAngularDiameter(position.distance)
+    }
+  }
+
+  /**
+   * Get moon phase and illumination for a given time
+   */
+  getMoonPhase(date: Date): MoonPhase {
+    const illumination = SunCalc.getMoonIllumination(date)
+
+    return {
+      name: this.getPhaseName(illumination.phase),
+      phase: illumination.phase,
+      illumination: illumination.fraction,
+      angle: illumination.angle,
+      waxing: illumination.waxing
+    }
+  }
+
+  /**
+   * Get moonrise and moonset between local midnights of the day in the given timezone
+   */
+  getMoonTimes(date: DayInput, lat: number, lon: number, timezone?: string): MoonTimes {
+    const day = getZonedDay(date, resolveTimeZone(timezone))
+    const stepMs = 10 * 60 * 1000
+    const height = (time: number) =>
+      this.getMoonPosition(new Date(time), lat, lon).altitude - this.RISE_SET_ALTITUDE
+
+    let rise: Date | null = null
+    let set: Date | null = null
+    let previousTime = day.start.getTime()
+    let previousHeight = height(previousTime)
+    const startsUp = previousHeight > 0
+
+    for (let time = previousTime + stepMs; time <= day.end.getTime() && !(rise && set); time += stepMs) {
+      const currentTime = Math.min(time, day.end.getTime())
+      const currentHeight = height(currentTime)
+
+      if (!rise && previousHeight <= 0 && currentHeight > 0) {
+        rise = refineCrossing(height, previousTime, currentTime)
+      } else if (!set && previousHeight > 0 && currentHeight <= 0) {
+        set = refineCrossing(height, previousTime, currentTime)
+      }
+
+      previousTime = currentTime
+      previousHeight = currentHeight
+    }
+
+    return {
+      rise,
+      set,
+      alwaysUp: !rise && !set && startsUp,
+      alwaysDown: !rise && !set && !startsUp
+    }
+  }
+
+  /**
+   * Get comprehensive moon information for a day
+   */
+  getMoonInfo(date: DayInput, lat: number, lon: number, timezone?: string): MoonInfo {
+    const day = getZonedDay(date, resolveTimeZone(timezone))
+    // A day string has no time of day, so describe the moon at local noon
+    const instant = date instanceof Date ? date : day.noon
+    const times = this.getMoonTimes(day.key, lat, lon, day.timezone)
+    const position = this.getMoonPosition(instant, lat, lon)
+    const phase = this.getMoonPhase(instant)
+    const angularDiameter = position.angularDiameter
+
+    return {
+      date: instant,
+      times,
+      phase,
+      position,
+      riseAzimuth: times.rise ? this.getMoonPosition(times.rise, lat, lon).azimuth : null,
+      setAzimuth: times.set ? this.getMoonPosition(times.set, lat, lon).azimuth : null,
+      apparentSize: {
+        angularDiameter,
+        relativeToAverage: angularDiameter / this.calculateAngularDiameter(this.AVERAGE_DISTANCE),
+        isSupermoon: phase.name === 'Full Moon' && position.distance <= this.SUPERMOON_DISTANCE
+      }
+    }
+  }
+
+  /**
+   * Name of the phase, each named phase spanning an eighth of the cycle
+   */
+  getPhaseName(phase: number): MoonPhaseName {
+    const index = Math.round(phase * 8) % 8
+    return PHASE_NAMES[index]
+  }
+
+  /**
+   * Apparent diameter in arcminutes at a given distance
+   */
+  private calculateAngularDiameter(distance: number): number {
+    return 2 * Math.atan(this.MOON_RADIUS / distance) * 180 / Math.PI * 60
+  }
+}
+
+export const moonCalculator = new MoonCalculator()
+export type {
+  MoonPhaseName,
+  MoonPosition,
+  MoonPhase,
+  MoonTimes,
+  MoonInfo
+}
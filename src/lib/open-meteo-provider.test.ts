@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import recorded from './__fixtures__/open-meteo-forecast.json'
+import { OpenMeteoProvider } from './open-meteo-provider'
+
+function stubFetch() {
+  const fetchMock = vi.fn(async (_url: string) =>
+    new Response(JSON.stringify(recorded), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  )
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+describe('OpenMeteoProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('asks for unix times and metric wind in one request', async () => {
+    const fetchMock = stubFetch()
+    await new OpenMeteoProvider('https://open-meteo.test/v1/forecast').getWeather(51.5074, -0.1278)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const url = new URL(fetchMock.mock.calls[0][0])
+    expect(url.origin).toBe('https://open-meteo.test')
+    expect(url.searchParams.get('timeformat')).toBe('unixtime')
+    expect(url.searchParams.get('wind_speed_unit')).toBe('ms')
+    expect(url.searchParams.get('current')).not.toContain('precipitation_probability')
+  })
+
+  it('normalizes current conditions with cloud layers and dew point', async () => {
+    stubFetch()
+    const snapshot = await new OpenMeteoProvider().getWeather(51.5074, -0.1278)
+
+    expect(snapshot.provider).toBe('open-meteo')
+    expect(snapshot.current).toMatchObject({
+      time: new Date('2025-06-01T12:00:00Z'),
+      temp: 18,
+      condition: 'Clouds',
+      description: 'overcast',
+      conditionCode: 804,
+      clouds: 76,
+      visibility: 24.14,
+      humidity: 59,
+      windSpeed: 4.3,
+      uvIndex: 5.35,
+      pressure: 1016.2,
+      stationPressure: 1013.4,
+      dewPoint: 10.2,
+      cloudLayers: { low: 12, mid: 35, high: 70 }
+    })
+  })
+
+  it('maps WMO codes and percentages in the hourly series', async () => {
+    stubFetch()
+    const { forecast } = await new OpenMeteoProvider().getWeather(51.5074, -0.1278)
+
+    expect(forecast.hourly).toHaveLength(6)
+    expect(forecast.hourly[4]).toMatchObject({
+      time: new Date('2025-06-01T03:00:00Z'),
+      condition: 'Fog',
+      conditionCode: 741,
+      visibility: 0.9,
+      precipitationProbability: 0.1
+    })
+    expect(forecast.hourly[5]).toMatchObject({ condition: 'Rain', conditionCode: 500, precipitationProbability: 0.55 })
+  })
+
+  it('builds daily entries from the daily block and that day’s hours', async () => {
+    stubFetch()
+    const { forecast } = await new OpenMeteoProvider().getWeather(51.5074, -0.1278)
+
+    expect(forecast.daily).toHaveLength(1)
+    expect(forecast.daily[0]).toMatchObject({
+      date: new Date('2025-05-31T23:00:00Z'),
+      tempMin: 10,
+      tempMax: 20,
+      sunrise: new Date('2025-06-01T03:49:00Z'),
+      sunset: new Date('2025-06-01T20:11:00Z'),
+      clouds: 31,
+      visibility: 0.9,
+      windSpeed: 2.1,
+      precipitationProbability: 0.55
+    })
+  })
+
+  it('falls back to a neutral condition for unknown WMO codes', () => {
+    expect(new OpenMeteoProvider().getCondition(42)).toEqual({ code: 800, main: 'Unknown', description: 'No description' })
+  })
+})
@@ -0,0 +1,253 @@
+import type { DailyWeather, WeatherData, WeatherSnapshot } from '@/types/weather'
+import { fetchJSONWithRetry, getSunEvents, type WeatherProvider } from './weather-provider'
+
+// Raw Open-Meteo forecast response, requested with timeformat=unixtime
+interface OpenMeteoResponse {
+  utc_offset_seconds: number
+  current: {
+    time: number
+    temperature_2m: number
+    relative_humidity_2m: number
+    dew_point_2m: number
+    cloud_cover: number
+    cloud_cover_low: number
+    cloud_cover_mid: number
+    cloud_cover_high: number
+    visibility: number // meters
+    wind_speed_10m: number // m/s
+    weather_code: number // WMO code
+    pressure_msl: number
+    surface_pressure: number
+    uv_index?: number
+  }
+  hourly: {
+    time: number[]
+    temperature_2m: number[]
+    relative_humidity_2m: number[]
+    dew_point_2m: number[]
+    cloud_cover: number[]
+    cloud_cover_low: number[]
+    cloud_cover_mid: number[]
+    cloud_cover_high: number[]
+    visibility: number[]
+    wind_speed_10m: number[]
+    weather_code: number[]
+    pressure_msl: number[]
+    surface_pressure: number[]
+    precipitation_probability: (number | null)[]
+    uv_index: (number | null)[]
+  }
+  daily: {
+    time: number[]
+    weather_code: number[]
+    temperature_2m_max: number[]
+    temperature_2m_min: number[]
+    sunrise: number[]
+    sunset: number[]
+    precipitation_probability_max: (number | null)[]
+    uv_index_max: (number | null)[]
+  }
+}
+
+interface WeatherCondition {
+  code: number // OpenWeatherMap condition id
+  main: string
+  description: string
+}
+
+const BASE_URL = 'https://api.open-meteo.com/v1/forecast'
+
+const HOURLY_VARIABLES = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'dew_point_2m',
+  'cloud_cover',
+  'cloud_cover_low',
+  'cloud_cover_mid',
+  'cloud_cover_high',
+  'visibility',
+  'wind_speed_10m',
+  'weather_code',
+  'pressure_msl',
+  'surface_pressure',
+  'precipitation_probability',
+  'uv_index'
+]
+
+const DAILY_VARIABLES = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'sunrise',
+  'sunset',
+  'precipitation_probability_max',
+  'uv_index_max'
+]
+
+// WMO weather interpretation codes mapped onto the nearest OpenWeatherMap condition
+const WMO_CONDITIONS: Record<number, WeatherCondition> = {
+  0: { code: 800, main: 'Clear', description: 'clear sky' },
+  1: { code: 801, main: 'Clouds', description: 'mainly clear' },
+  2: { code: 802, main: 'Clouds', description: 'partly cloudy' },
+  3: { code: 804, main: 'Clouds', description: 'overcast' },
+  45: { code: 741, main: 'Fog', description: 'fog' },
+  48: { code: 741, main: 'Fog', description: 'depositing rime fog' },
+  51: { code: 300, main: 'Drizzle', description: 'light drizzle' },
+  53: { code: 301, main: 'Drizzle', description: 'drizzle' },
+  55: { code: 302, main: 'Drizzle', description: 'dense drizzle' },
+  56: { code: 511, main: 'Rain', description: 'light freezing drizzle' },
+  57: { code: 511, main: 'Rain', description: 'dense freezing drizzle' },
+  61: { code: 500, main: 'Rain', description: 'light rain' },
+  63: { code: 501, main: 'Rain', description: 'moderate rain' },
+  65: { code: 502, main: 'Rain', description: 'heavy rain' },
+  66: { code: 511, main: 'Rain', description: 'light freezing rain' },
+  67: { code: 511, main: 'Rain', description: 'heavy freezing rain' },
+  71: { code: 600, main: 'Snow', description: 'light snow' },
+  73: { code: 601, main: 'Snow', description: 'snow' },
+  75: { code: 602, main: 'Snow', description: 'heavy snow' },
+  77: { code: 600, main: 'Snow', description: 'snow grains' },
+  80: { code: 520, main: 'Rain', description: 'light rain showers' },
+  81: { code: 521, main: 'Rain', description: 'rain showers' },
+  82: { code: 522, main: 'Rain', description: 'violent rain showers' },
+  85: { code: 620, main: 'Snow', description: 'light snow showers' },
+  86: { code: 621, main: 'Snow', description: 'heavy snow showers' },
+  95: { code: 211, main: 'Thunderstorm', description: 'thunderstorm' },
+  96: { code: 201, main: 'Thunderstorm', description: 'thunderstorm with light hail' },
+  99: { code: 202, main: 'Thunderstorm', description: 'thunderstorm with heavy hail' }
+}
+
+const UNKNOWN_CONDITION: WeatherCondition = { code: 800, main: 'Unknown', description: 'No description' }
+
+/**
+ * Open-Meteo needs no API key, which makes it the default when OpenWeatherMap isn't configured
+ */
+class OpenMeteoProvider implements WeatherProvider {
+  readonly name = 'open-meteo' as const
+
+  constructor(private readonly baseUrl: string = BASE_URL) {}
+
+  async getWeather(lat: number, lon: number): Promise<WeatherSnapshot> {
+    const params = new URLSearchParams({
+      latitude: String(lat),
+      longitude: String(lon),
+      current: HOURLY_VARIABLES.filter(variable => variable !== 'precipitation_probability').join(','),
+      hourly: HOURLY_VARIABLES.join(','),
+      daily: DAILY_VARIABLES.join(','),
+      timezone: 'auto',
+      timeformat: 'unixtime',
+      wind_speed_unit: 'ms',
+      forecast_days: '7'
+    })
+    const response: OpenMeteoResponse = await fetchJSONWithRetry(`${this.baseUrl}?${params}`)
+
+    return {
+      provider: this.name,
+      fetchedAt: new Date(),
+      current: this.normalizeCurrent(response, lat, lon),
+      forecast: {
+        hourly: this.normalizeHourly(response, lat, lon),
+        daily: this.normalizeDaily(response)
+      }
+    }
+  }
+
+  /**
+   * Describe a WMO weather code in OpenWeatherMap terms
+   */
+  getCondition(wmoCode: number): WeatherCondition {
+    return WMO_CONDITIONS[wmoCode] ?? UNKNOWN_CONDITION
+  }
+
+  private normalizeCurrent({ current }: OpenMeteoResponse, lat: number, lon: number): WeatherData {
+    const time = new Date(current.time * 1000)
+    const condition = this.getCondition(current.weather_code)
+
+    return {
+      temp: Math.round(current.temperature_2m),
+      condition: condition.main,
+      description: condition.description,
+      clouds: current.cloud_cover,
+      visibility: (current.visibility || 0) / 1000,
+      humidity: current.relative_humidity_2m,
+      windSpeed: current.wind_speed_10m,
+      uvIndex: current.uv_index ?? 0,
+      ...getSunEvents(time, lat, lon),
+      time,
+      pressure: current.pressure_msl,
+      stationPressure: current.surface_pressure,
+      conditionCode: condition.code,
+      cloudLayers: {
+        low: current.cloud_cover_low,
+        mid: current.cloud_cover_mid,
+        high: current.cloud_cover_high
+      },
+      dewPoint: current.dew_point_2m
+    }
+  }
+
+  private normalizeHourly({ hourly }: OpenMeteoResponse, lat: number, lon: number): WeatherData[] {
+    return hourly.time.map((seconds, i) => {
+      const time = new Date(seconds * 1000)
+      const condition = this.getCondition(hourly.weather_code[i])
+
+      return {
+        temp: Math.round(hourly.temperature_2m[i]),
+        condition: condition.main,
+        description: condition.description,
+        clouds: hourly.cloud_cover[i],
+        visibility: (hourly.visibility[i] || 0) / 1000,
+        humidity: hourly.relative_humidity_2m[i],
+        windSpeed: hourly.wind_speed_10m[i],
+        uvIndex: hourly.uv_index[i] ?? 0,
+        ...getSunEvents(time, lat, lon),
+        time,
+        pressure: hourly.pressure_msl[i],
+        stationPressure: hourly.surface_pressure[i],
+        precipitationProbability: (hourly.precipitation_probability[i] ?? 0) / 100,
+        conditionCode: condition.code,
+        cloudLayers: {
+          low: hourly.cloud_cover_low[i],
+          mid: hourly.cloud_cover_mid[i],
+          high: hourly.cloud_cover_high[i]
+        },
+        dewPoint: hourly.dew_point_2m[i]
+      }
+    })
+  }
+
+  private normalizeDaily({ daily, hourly }: OpenMeteoResponse): DailyWeather[] {
+    return daily.time.map((seconds, i) => {
+      const date = new Date(seconds * 1000)
+      const condition = this.getCondition(daily.weather_code[i])
+      // Daily data has no clouds, humidity or wind, so average that day's hourly values
+      const dayEnd = seconds + 24 * 60 * 60
+      const hours = hourly.time
+        .map((time, j) => time >= seconds && time < dayEnd ? j : -1)
+        .filter(j => j >= 0)
+      const average = (values: number[]) =>
+        hours.length ? hours.reduce((sum, j) => sum + values[j], 0) / hours.length : 0
+
+      return {
+        temp: Math.round((daily.temperature_2m_max[i] + daily.temperature_2m_min[i]) / 2),
+        condition: condition.main,
+        description: condition.description,
+        clouds: Math.round(average(hourly.cloud_cover)),
+        visibility: hours.length ? Math.min(...hours.map(j => hourly.visibility[j] || 0)) / 1000 : 0,
+        humidity: Math.round(average(hourly.relative_humidity_2m)),
+        windSpeed: hours.length ? Math.max(...hours.map(j => hourly.wind_speed_10m[j])) : 0,
+        uvIndex: daily.uv_index_max[i] ?? 0,
+        sunrise: new Date(daily.sunrise[i] * 1000),
+        sunset: new Date(daily.sunset[i] * 1000),
+        time: date,
+        precipitationProbability: (daily.precipitation_probability_max[i] ?? 0) / 100,
+        conditionCode: condition.code,
+        tempMin: Math.round(daily.temperature_2m_min[i]),
+        tempMax: Math.round(daily.temperature_2m_max[i]),
+        date
+      }
+    })
+  }
+}
+
+export { OpenMeteoProvider }
+export type { OpenMeteoResponse }
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import current from './__fixtures__/openweathermap-current.json'
+import forecast from './__fixtures__/openweathermap-forecast.json'
+import { OpenWeatherMapProvider } from './openweathermap-provider'
+
+// Answer the provider's two requests with the recorded London responses
+function stubFetch() {
+  const fetchMock = vi.fn(async (url: string) => {
+    const body = url.includes('/forecast?') ? forecast : current
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+describe('OpenWeatherMapProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('requests current weather and the 5-day forecast with the key', async () => {
+    const fetchMock = stubFetch()
+    await new OpenWeatherMapProvider('test-key').getWeather(51.5074, -0.1278)
+
+    const urls = fetchMock.mock.calls.map(([url]) => url)
+    expect(urls).toHaveLength(2)
+    expect(urls.every(url => url.includes('appid=test-key') && url.includes('units=metric'))).toBe(true)
+  })
+
+  it('normalizes current conditions', async () => {
+    stubFetch()
+    const snapshot = await new OpenWeatherMapProvider('test-key').getWeather(51.5074, -0.1278)
+
+    expect(snapshot.provider).toBe('openweathermap')
+    expect(snapshot.current).toMatchObject({
+      temp: 19,
+      condition: 'Clouds',
+      description: 'broken clouds',
+      clouds: 75,
+      visibility: 10,
+      humidity: 58,
+      windSpeed: 4.12,
+      pressure: 1016,
+      stationPressure: 1012,
+      conditionCode: 803,
+      time: new Date('2025-06-01T12:00:00Z'),
+      sunrise: new Date('2025-06-01T03:49:00Z'),
+      sunset: new Date('2025-06-01T20:11:00Z')
+    })
+  })
+
+  it('normalizes forecast entries and fills in their sunrise and sunset', async () => {
+    stubFetch()
+    const { forecast: result } = await new OpenWeatherMapProvider('test-key').getWeather(51.5074, -0.1278)
+
+    expect(result.hourly).toHaveLength(6)
+    expect(result.hourly[4]).toMatchObject({
+      time: new Date('2025-06-02T00:00:00Z'),
+      temp: 11,
+      condition: 'Rain',
+      precipitationProbability: 0.68,
+      conditionCode: 500,
+      uvIndex: 0
+    })
+    for (const entry of result.hourly) {
+      expect(entry.sunrise.getTime()).toBeLessThan(entry.sunset.getTime())
+    }
+  })
+
+  it('summarizes forecast entries per local day', async () => {
+    stubFetch()
+    const { forecast: result } = await new OpenWeatherMapProvider('test-key').getWeather(51.5074, -0.1278)
+
+    // 00:00 UTC is already 2 June in London (UTC+1)
+    expect(result.daily).toHaveLength(2)
+    expect(result.daily[0]).toMatchObject({
+      date: new Date('2025-05-31T23:00:00Z'),
+      tempMin: 13,
+      tempMax: 19,
+      clouds: 34,
+      windSpeed: 4.5,
+      precipitationProbability: 0.12
+    })
+    expect(result.daily[1]).toMatchObject({ tempMin: 10, tempMax: 11, precipitationProbability: 0.68 })
+  })
+
+  it('refuses to run without an API key', async () => {
+    const fetchMock = stubFetch()
+
+    await expect(new OpenWeatherMapProvider('').getWeather(51.5074, -0.1278)).rejects.toThrow('not configured')
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,186 @@
+import type { DailyWeather, WeatherData, WeatherSnapshot } from '@/types/weather'
+import { fetchJSONWithRetry, getSunEvents, type WeatherProvider } from './weather-provider'
+
+// Raw OpenWeatherMap API response structure
+interface OpenWeatherMapResponse {
+  dt: number
+  main: {
+    temp: number
+    feels_like: number
+    temp_min: number
+    temp_max: number
+    pressure: number
+    humidity: number
+    grnd_level?: number // hPa at ground level
+  }
+  weather: {
+    id: number
+    main: string
+    description: string
+    icon: string
+  }[]
+  wind: {
+    speed: number
+    deg: number
+  }
+  clouds: {
+    all: number
+  }
+  visibility: number
+  uvi?: number
+  name: string
+  timezone: number // seconds east of UTC
+  sys: {
+    country: string
+    sunrise: number
+    sunset: number
+  }
+  alerts?: any[]
+}
+
+interface OpenWeatherMapForecastEntry {
+  dt: number
+  main: {
+    temp: number
+    feels_like: number
+    temp_min: number
+    temp_max: number
+    pressure: number
+    humidity: number
+    grnd_level?: number // hPa at ground level
+  }
+  weather: {
+    id: number
+    main: string
+    description: string
+    icon: string
+  }[]
+  clouds: {
+    all: number
+  }
+  wind: {
+    speed: number
+    deg: number
+  }
+  visibility: number
+  pop: number
+  dt_txt: string
+}
+
+interface OpenWeatherMapForecastResponse {
+  list: OpenWeatherMapForecastEntry[]
+  city?: {
+    timezone: number // seconds east of UTC
+    sunrise: number
+    sunset: number
+  }
+}
+
+const BASE_URL = "https://api.openweathermap.org/data/2.5"
+
+class OpenWeatherMapProvider implements WeatherProvider {
+  readonly name = 'openweathermap' as const
+
+  constructor(private readonly apiKey: string | undefined = process.env.OPENWEATHER_API_KEY) {}
+
+  async getWeather(lat: number, lon: number): Promise<WeatherSnapshot> {
+    if (!this.apiKey) {
+      throw new Error('Weather API key is not configured')
+    }
+
+    // Fetch current weather and 5-day forecast
+    const [current, forecast]: [OpenWeatherMapResponse, OpenWeatherMapForecastResponse] = await Promise.all([
+      fetchJSONWithRetry(`${BASE_URL}/weather?lat=${lat}&lon=${lon}&appid=${this.apiKey}&units=metric`),
+      fetchJSONWithRetry(`${BASE_URL}/forecast?lat=${lat}&lon=${lon}&appid=${this.apiKey}&units=metric&cnt=40`)
+    ])
+
+    const hourly = (forecast.list || []).map(entry => this.normalizeForecastEntry(entry, lat, lon))
+    const utcOffset = forecast.city?.timezone ?? current.timezone ?? 0
+
+    return {
+      provider: this.name,
+      fetchedAt: new Date(),
+      current: this.normalizeCurrent(current),
+      forecast: {
+        hourly,
+        daily: this.summarizeDays(hourly, utcOffset)
+      }
+    }
+  }
+
+  private normalizeCurrent(current: OpenWeatherMapResponse): WeatherData {
+    return {
+      temp: Math.round(current.main?.temp || 0),
+      condition: current.weather?.[0]?.main || 'Unknown',
+      description: current.weather?.[0]?.description || 'No description',
+      clouds: current.clouds?.all || 0,
+      visibility: (current.visibility || 0) / 1000, // Convert to km
+      humidity: current.main?.humidity || 0,
+      windSpeed: current.wind?.speed || 0,
+      uvIndex: current.uvi || 0,
+      sunrise: new Date((current.sys?.sunrise || 0) * 1000),
+      sunset: new Date((current.sys?.sunset || 0) * 1000),
+      time: new Date((current.dt || Date.now() / 1000) * 1000),
+      pressure: current.main?.pressure,
+      stationPressure: current.main?.grnd_level,
+      conditionCode: current.weather?.[0]?.id
+    }
+  }
+
+  private normalizeForecastEntry(entry: OpenWeatherMapForecastEntry, lat: number, lon: number): WeatherData {
+    const time = new Date(entry.dt * 1000)
+
+    return {
+      temp: Math.round(entry.main?.temp || 0),
+      condition: entry.weather?.[0]?.main || 'Unknown',
+      description: entry.weather?.[0]?.description || 'No description',
+      clouds: entry.clouds?.all || 0,
+      visibility: (entry.visibility || 0) / 1000,
+      humidity: entry.main?.humidity || 0,
+      windSpeed: entry.wind?.speed || 0,
+      uvIndex: 0, // not in the 5-day forecast
+      ...getSunEvents(time, lat, lon),
+      time,
+      pressure: entry.main?.pressure,
+      stationPressure: entry.main?.grnd_level,
+      precipitationProbability: entry.pop ?? 0,
+      conditionCode: entry.weather?.[0]?.id
+    }
+  }
+
+  /**
+   * The free forecast has no daily entries, so build them from the 3-hourly ones per local day
+   */
+  private summarizeDays(hourly: WeatherData[], utcOffset: number): DailyWeather[] {
+    const days = new Map<string, WeatherData[]>()
+    for (const entry of hourly) {
+      const key = new Date(entry.time!.getTime() + utcOffset * 1000).toISOString().slice(0, 10)
+      days.set(key, [...(days.get(key) || []), entry])
+    }
+
+    return [...days.entries()].map(([key, entries]) => {
+      const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+      // Describe the day by its entry closest to local midday
+      const midday = Date.parse(`${key}T12:00:00Z`) - utcOffset * 1000
+      const representative = entries.reduce((best, entry) =>
+        Math.abs(entry.time!.getTime() - midday) < Math.abs(best.time!.getTime() - midday) ? entry : best
+      )
+
+      return {
+        ...representative,
+        temp: Math.round(average(entries.map(entry => entry.temp))),
+        clouds: Math.round(average(entries.map(entry => entry.clouds))),
+        humidity: Math.round(average(entries.map(entry => entry.humidity))),
+        visibility: Math.min(...entries.map(entry => entry.visibility)),
+        windSpeed: Math.max(...entries.map(entry => entry.windSpeed)),
+        precipitationProbability: Math.max(...entries.map(entry => entry.precipitationProbability ?? 0)),
+        tempMin: Math.min(...entries.map(entry => entry.temp)),
+        tempMax: Math.max(...entries.map(entry => entry.temp)),
+        date: new Date(Date.parse(`${key}T00:00:00Z`) - utcOffset * 1000)
+      }
+    })
+  }
+}
+
+export { OpenWeatherMapProvider }
+export type { OpenWeatherMapResponse, OpenWeatherMapForecastEntry, OpenWeatherMapForecastResponse }
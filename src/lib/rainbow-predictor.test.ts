@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { rainbowPredictor } from './rainbow-predictor'
+import type { WeatherData } from '@/types/weather'
+
+const LONDON = { lat: 51.5074, lon: -0.1278 }
+
+// 3-hourly entries across the afternoon and evening of 2025-06-20
+const entries = (weather: Partial<WeatherData>): WeatherData[] =>
+  [12, 15, 18, 21].map(hour => ({
+    temp: 18,
+    condition: 'Clear',
+    description: 'clear sky',
+    clouds: 10,
+    visibility: 10000,
+    humidity: 60,
+    windSpeed: 4,
+    uvIndex: 0,
+    sunrise: new Date('2025-06-20T03:43:00Z'),
+    sunset: new Date('2025-06-20T20:21:00Z'),
+    time: new Date(`2025-06-20T${hour}:00:00Z`),
+    precipitationProbability: 0,
+    conditionCode: 800,
+    ...weather
+  }))
+
+describe('rainbowPredictor.getShowerPoint', () => {
+  it('looks 20 km along the anti-solar azimuth, on a 0.1° grid', () => {
+    expect(rainbowPredictor.getShowerPoint(LONDON.lat, LONDON.lon, 90)).toEqual({ lat: 51.5, lon: 0.2 })
+  })
+})
+
+describe('rainbowPredictor.findWindows', () => {
+  const local = entries({ clouds: 20 })
+  const showers = entries({ condition: 'Rain', description: 'light intensity shower rain', clouds: 70, precipitationProbability: 0.9, conditionCode: 520 })
+  const point = rainbowPredictor.getShowerPoint(LONDON.lat, LONDON.lon, 90)
+  // The same showers in every sector, so the test doesn't hinge on where the sun is
+  const sectors = new Map([0, 45, 90, 135, 180, 225, 270, 315].map(sector => [sector, { ...point, forecast: showers }]))
+
+  it('finds a window when showers lie opposite a low sun under a clear local sky', () => {
+    const windows = rainbowPredictor.findWindows(local, LONDON.lat, LONDON.lon, {}, sectors)
+
+    expect(windows.length).toBeGreaterThan(0)
+    const [window] = windows
+    expect(window.peak.sunAltitude).toBeGreaterThan(0)
+    expect(window.peak.sunAltitude).toBeLessThan(42)
+    expect(window.forecast.pop).toBe(0.9)
+    expect(window.forecast.clouds).toBe(20)
+    expect(window.forecast.showers).toEqual(point)
+  })
+
+  it('needs the rain opposite the sun, not overhead', () => {
+    expect(rainbowPredictor.findWindows(local, LONDON.lat, LONDON.lon)).toEqual([])
+  })
+
+  it('needs the sun to get through the local cloud', () => {
+    const overcast = entries({ clouds: 100 })
+    expect(rainbowPredictor.findWindows(overcast, LONDON.lat, LONDON.lon, {}, sectors)).toEqual([])
+  })
+})
@@ -0,0 +1,277 @@
+import { sunCalculator } from './sun-calculator'
+import { solarPositionEngine } from './solar-position'
+import { weatherService } from './weather-service'
+import { destinationPoint } from './horizon-profile'
+import type { WeatherData } from '@/types/weather'
+
+interface RainbowPredictorOptions {
+  threshold?: number // minimum likelihood (0-1) for a sample to count, default 0.3
+  stepMinutes?: number // sampling resolution inside each forecast entry, default 10
+}
+
+interface RainbowSample {
+  time: Date
+  sunAltitude: number // apparent altitude in degrees
+  sunAzimuth: number // degrees from North
+  antiSolarAzimuth: number // degrees from North, the center of the bow
+  bowTopAltitude: number // degrees; how high the top of the primary bow stands above the horizon
+  likelihood: number // 0-1
+}
+
+interface RainbowWindow {
+  start: Date
+  end: Date
+  duration: number // in minutes
+  peak: RainbowSample
+  likelihood: 'high' | 'moderate' | 'low'
+  forecast: {
+    time: Date // forecast entry the peak falls in
+    pop: number // probability of precipitation toward the bow, 0-1
+    conditionId: number // OpenWeatherMap condition code toward the bow
+    description: string
+    clouds: number // percent, overhead
+    showers: { lat: number; lon: number } | null // where the shower forecast was taken; null when the local one stood in
+  }
+}
+
+// Forecasts for the rain in each anti-solar sector, keyed by the sector's center azimuth
+type ShowerForecasts = Map<number, { lat: number; lon: number; forecast: WeatherData[] }>
+
+// The primary bow sits 42° from the anti-solar point, so above this sun altitude it is below the horizon
+const RAINBOW_RADIUS = 42
+// Forecast entries describe the span around their time; 3 hours unless the spacing says otherwise
+const FORECAST_SPAN_MS = 3 * 60 * 60 * 1000
+// The rain has to fall opposite the sun, so its forecast is taken this far out along the anti-solar azimuth
+const SHOWER_DISTANCE = 20 * 1000 // meters
+// Anti-solar azimuths are grouped into sectors this wide, so a day needs only a handful of extra forecasts
+const SHOWER_SECTOR = 45 // degrees
+// Shower points are snapped to this grid so nearby locations share a cached forecast
+const SHOWER_GRID = 0.1 // degrees
+
+const DEFAULT_OPTIONS: Required<RainbowPredictorOptions> = {
+  threshold: 0.3,
+  stepMinutes: 10
+}
+
+class RainbowPredictor {
+  /**
+   * Rainbow windows over the forecast period for a location, from the live forecast overhead
+   * and out toward each anti-solar sector the low sun passes through
+   */
+  async predict(lat: number, lon: number, options: RainbowPredictorOptions = {}): Promise<RainbowWindow[]> {
+    const forecast = await weatherService.getForecast(lat, lon)
+    const stepMs = (options.stepMinutes ?? DEFAULT_OPTIONS.stepMinutes) * 60 * 1000
+    const sectors = new Set<number>()
+
+    for (const { time } of this.getSampleTimes(forecast.hourly, stepMs)) {
+      const position = sunCalculator.getSunPosition(new Date(time), lat, lon)
+      // A little below the horizon still counts, refraction lifts the sun into view
+      if (position.altitude > -1 && position.altitude < RAINBOW_RADIUS) {
+        sectors.add(this.getShowerSector(position.azimuth + 180))
+      }
+    }
+
+    const showers: ShowerForecasts = new Map()
+    await Promise.all([...sectors].map(async sector => {
+      const point = this.getShowerPoint(lat, lon, sector)
+      try {
+        showers.set(sector, { ...point, forecast: (await weatherService.getForecast(point.lat, point.lon)).hourly })
+      } catch (error) {
+        console.warn('🌈 RainbowPredictor: No forecast toward the bow, using the local one:', error)
+      }
+    }))
+
+    return this.findWindows(forecast.hourly, lat, lon, options, showers)
+  }
+
+  /**
+   * Where to sample the showers for an anti-solar sector
+   */
+  getShowerPoint(lat: number, lon: number, sector: number): { lat: number; lon: number } {
+    const point = destinationPoint(lat, lon, sector, SHOWER_DISTANCE)
+    const snap = (value: number) => Math.round(value / SHOWER_GRID) / (1 / SHOWER_GRID)
+    return { lat: snap(point.lat), lon: snap(point.lon) }
+  }
+
+  /**
+   * Stretches of time when a low sun and showers opposite it make a rainbow likely. Without a
+   * shower forecast for a sector, the local forecast stands in for the rain as well.
+   */
+  findWindows(
+    forecast: WeatherData[],
+    lat: number,
+    lon: number,
+    options: RainbowPredictorOptions = {},
+    showers: ShowerForecasts = new Map()
+  ): RainbowWindow[] {
+    const { threshold, stepMinutes } = { ...DEFAULT_OPTIONS, ...options }
+    const stepMs = stepMinutes * 60 * 1000
+    const windows: RainbowWindow[] = []
+    let current: { start: Date; end: Date; peak: RainbowSample; entry: WeatherData; rain: WeatherData; showers: { lat: number; lon: number } | null } | null = null
+
+    const close = () => {
+      if (!current) return
+      windows.push({
+        start: current.start,
+        end: current.end,
+        duration: Math.round((current.end.getTime() - current.start.getTime()) / 60000),
+        peak: current.peak,
+        likelihood: this.getLikelihoodLevel(current.peak.likelihood),
+        forecast: {
+          time: current.entry.time!,
+          pop: current.rain.precipitationProbability ?? 0,
+          conditionId: current.rain.conditionCode ?? 800,
+          description: current.rain.description,
+          clouds: current.entry.clouds,
+          showers: current.showers
+        }
+      })
+      current = null
+    }
+
+    for (const { time, entry } of this.getSampleTimes(forecast, stepMs)) {
+      // Gaps in the forecast end a window
+      if (current && time - current.end.getTime() > stepMs) close()
+
+      const antiSolarAzimuth = (sunCalculator.getSunPosition(new Date(time), lat, lon).azimuth + 180) % 360
+      const sector = showers.get(this.getShowerSector(antiSolarAzimuth))
+      const rain = (sector && this.findEntry(sector.forecast, time)) ?? entry
+      const sample = this.getSample(new Date(time), lat, lon, entry, rain)
+
+      if (sample.likelihood >= threshold) {
+        const point = rain === entry ? null : { lat: sector!.lat, lon: sector!.lon }
+        if (!current) {
+          current = { start: sample.time, end: sample.time, peak: sample, entry, rain, showers: point }
+        }
+        current.end = sample.time
+        if (sample.likelihood > current.peak.likelihood) {
+          current.peak = sample
+          current.entry = entry
+          current.rain = rain
+          current.showers = point
+        }
+      } else {
+        close()
+      }
+    }
+    close()
+
+    return windows
+  }
+
+  /**
+   * Rainbow likelihood at one instant, from the sky overhead (can the sun get through) and the
+   * rain opposite the sun (is there something to light up); the local entry serves for both by default
+   */
+  getSample(time: Date, lat: number, lon: number, entry: WeatherData, rain: WeatherData = entry): RainbowSample {
+    const position = sunCalculator.getSunPosition(time, lat, lon)
+    const sunAltitude = position.altitude + solarPositionEngine.getRefraction(position.altitude)
+    const conditionId = rain.conditionCode ?? 800
+
+    const likelihood = (rain.precipitationProbability ?? 0) *
+      this.getShowerFactor(conditionId) *
+      this.getSunlightFactor(entry.clouds) *
+      this.getAltitudeFactor(sunAltitude)
+
+    return {
+      time,
+      sunAltitude,
+      sunAzimuth: position.azimuth,
+      antiSolarAzimuth: (position.azimuth + 180) % 360,
+      bowTopAltitude: Math.max(0, RAINBOW_RADIUS - sunAltitude),
+      likelihood: Math.round(likelihood * 100) / 100
+    }
+  }
+
+  /**
+   * Sample instants across the forecast, each with the entry covering it
+   */
+  private getSampleTimes(forecast: WeatherData[], stepMs: number): Array<{ time: number; entry: WeatherData }> {
+    const entries = this.sortEntries(forecast)
+    const span = this.getSpan(entries)
+    const samples: Array<{ time: number; entry: WeatherData }> = []
+    let lastTime = -Infinity
+
+    for (const entry of entries) {
+      const center = entry.time!.getTime()
+      const from = Math.max(center - span / 2, lastTime + stepMs)
+
+      for (let time = from; time < center + span / 2; time += stepMs) {
+        samples.push({ time, entry })
+        lastTime = time
+      }
+    }
+
+    return samples
+  }
+
+  /**
+   * The entry whose span covers a time, or null outside the forecast
+   */
+  private findEntry(forecast: WeatherData[], time: number): WeatherData | null {
+    const entries = this.sortEntries(forecast)
+    const span = this.getSpan(entries)
+    return entries.find(entry => Math.abs(entry.time!.getTime() - time) <= span / 2) ?? null
+  }
+
+  private sortEntries(forecast: WeatherData[]): WeatherData[] {
+    return forecast
+      .filter(entry => entry.time)
+      .sort((a, b) => a.time!.getTime() - b.time!.getTime())
+  }
+
+  // Forecast entries describe the span around their time, taken from their spacing
+  private getSpan(entries: WeatherData[]): number {
+    return entries.length > 1
+      ? entries[1].time!.getTime() - entries[0].time!.getTime()
+      : FORECAST_SPAN_MS
+  }
+
+  private getShowerSector(azimuth: number): number {
+    return (Math.round(((azimuth % 360) + 360) % 360 / SHOWER_SECTOR) * SHOWER_SECTOR) % 360
+  }
+
+  /**
+   * How well an OpenWeatherMap condition code fits the showers-with-sun pattern rainbows need
+   */
+  private getShowerFactor(conditionId: number): number {
+    if (conditionId >= 520 && conditionId <= 531) return 1 // shower rain
+    if (conditionId === 511) return 0 // freezing rain
+    if (conditionId >= 500 && conditionId < 520) return conditionId <= 501 ? 0.6 : 0.4 // steady rain, usually under solid cloud
+    if (conditionId >= 200 && conditionId < 300) return 0.7 // convective storms pass and leave sun behind
+    if (conditionId === 321 || conditionId === 313 || conditionId === 314) return 0.6 // shower drizzle
+    if (conditionId >= 300 && conditionId < 400) return 0.4 // fine drizzle makes faint bows at best
+    if (conditionId >= 801 && conditionId <= 803) return 0.4 // broken cloud, showers possible nearby
+    if (conditionId === 800) return 0.2
+    return 0 // snow, fog, haze, overcast
+  }
+
+  /**
+   * Direct sun has to reach the rain, which needs gaps in the cloud
+   */
+  private getSunlightFactor(clouds: number): number {
+    if (clouds <= 40) return 1
+    return Math.max(0, 1 - Math.pow((clouds - 40) / 60, 1.5))
+  }
+
+  /**
+   * Full, tall bows with a low sun, fading to nothing once the sun is 42° up
+   */
+  private getAltitudeFactor(sunAltitude: number): number {
+    if (sunAltitude <= 0) return 0
+    return Math.min(1, Math.max(0, (RAINBOW_RADIUS - sunAltitude) / 12))
+  }
+
+  private getLikelihoodLevel(likelihood: number): RainbowWindow['likelihood'] {
+    if (likelihood >= 0.6) return 'high'
+    if (likelihood >= 0.4) return 'moderate'
+    return 'low'
+  }
+}
+
+export const rainbowPredictor = new RainbowPredictor()
+export type {
+  RainbowPredictorOptions,
+  RainbowSample,
+  RainbowWindow
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { shadowPlanner } from './shadow-planner'
+
+// Sun positions from the NOAA calculator (see solar-position-reference.ts); the apparent
+// altitude adds refraction at 1010 hPa and 10 °C
+const PARIS_MORNING = { lat: 48.8566, lon: 2.3522, time: new Date('2025-06-21T10:00:00Z'), altitude: 56.3143, azimuth: 128.81 }
+const NEW_YORK_AFTERNOON = { lat: 40.7128, lon: -74.006, time: new Date('2024-12-21T20:30:00Z'), altitude: 8.7651, azimuth: 228.5548 }
+
+describe('shadowPlanner.getShadowSample', () => {
+  it('casts a short shadow away from a high sun', () => {
+    const { lat, lon, time } = PARIS_MORNING
+    const sample = shadowPlanner.getShadowSample(lat, lon, 10, time)
+
+    expect(Math.abs(sample.sunAltitude - PARIS_MORNING.altitude)).toBeLessThan(0.02)
+    expect(Math.abs(sample.sunAzimuth - PARIS_MORNING.azimuth)).toBeLessThan(0.02)
+    // 10 m / tan(56.31°)
+    expect(Math.abs(sample.length! - 6.666)).toBeLessThan(0.01)
+    expect(Math.abs(sample.direction - 308.81)).toBeLessThan(0.02)
+    expect(sample.clipped).toBe(false)
+  })
+
+  it('stretches the shadow of a low sun and clips it at maxLength', () => {
+    const { lat, lon, time } = NEW_YORK_AFTERNOON
+    const sample = shadowPlanner.getShadowSample(lat, lon, 10, time)
+    const clipped = shadowPlanner.getShadowSample(lat, lon, 10, time, 50)
+
+    // 10 m / tan(8.77°); a few thousandths of a degree move it by a few centimeters
+    expect(Math.abs(sample.length! - 64.86)).toBeLessThan(0.1)
+    expect(Math.abs(sample.direction - 48.555)).toBeLessThan(0.02)
+    expect(clipped).toMatchObject({ length: 50, clipped: true })
+  })
+
+  it('has no shadow while the sun is down', () => {
+    const sample = shadowPlanner.getShadowSample(48.8566, 2.3522, 10, new Date('2025-06-21T23:00:00Z'))
+
+    expect(sample.sunAltitude).toBeLessThan(0)
+    expect(sample.length).toBeNull()
+  })
+})
+
+describe('shadowPlanner.getShadowSeries', () => {
+  it('samples the range at each step, ends included', () => {
+    const start = new Date('2025-06-21T17:00:00Z')
+    const end = new Date('2025-06-21T18:00:00Z')
+    const samples = shadowPlanner.getShadowSeries(48.8566, 2.3522, 10, start, end, { stepMinutes: 15 })
+
+    expect(samples.map(sample => sample.time.toISOString().slice(11, 16))).toEqual(['17:00', '17:15', '17:30', '17:45', '18:00'])
+    // The evening sun sinks, so the shadow grows
+    for (let i = 1; i < samples.length; i++) {
+      expect(samples[i].length!).toBeGreaterThan(samples[i - 1].length!)
+    }
+  })
+
+  it('rejects inputs it cannot plan for', () => {
+    const start = new Date('2025-06-21T17:00:00Z')
+    const end = new Date('2025-06-21T18:00:00Z')
+
+    expect(() => shadowPlanner.getShadowSeries(48.8566, 2.3522, 0, start, end)).toThrow('Object height')
+    expect(() => shadowPlanner.getShadowSeries(48.8566, 2.3522, NaN, start, end)).toThrow('Object height')
+    expect(() => shadowPlanner.getShadowSeries(48.8566, 2.3522, 10, end, start)).toThrow('End time')
+    expect(() => shadowPlanner.getShadowSeries(48.8566, 2.3522, 10, start, end, { stepMinutes: 0 })).toThrow('Step')
+  })
+})
+
+describe('shadowPlanner.toGeoJSON', () => {
+  it('draws each shadow from the base toward its direction and skips night samples', () => {
+    const { lat, lon, time } = PARIS_MORNING
+    const day = shadowPlanner.getShadowSample(lat, lon, 10, time)
+    const night = shadowPlanner.getShadowSample(lat, lon, 10, new Date('2025-06-21T23:00:00Z'))
+    const { features } = shadowPlanner.toGeoJSON([day, night], lat, lon)
+
+    expect(features).toHaveLength(1)
+    const [[baseLon, baseLat], [tipLon, tipLat]] = features[0].geometry.coordinates
+    expect([baseLon, baseLat]).toEqual([lon, lat])
+
+    // Pointing north-west: tip is north and west of the base, about 6.7 m away
+    const north = (tipLat - lat) * 111320
+    const east = (tipLon - lon) * 111320 * Math.cos(lat * Math.PI / 180)
+    expect(north).toBeGreaterThan(0)
+    expect(east).toBeLessThan(0)
+    expect(Math.abs(Math.hypot(north, east) - day.length!)).toBeLessThan(0.05)
+    expect(Math.abs(((Math.atan2(east, north) * 180 / Math.PI) + 360) % 360 - day.direction)).toBeLessThan(0.5)
+  })
+})
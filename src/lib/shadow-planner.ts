@@ -0,0 +1,126 @@
+import type { Feature, FeatureCollection, LineString } from 'geojson'
+import { sunCalculator } from './sun-calculator'
+import { solarPositionEngine } from './solar-position'
+import { destinationPoint } from './horizon-profile'
+
+interface ShadowPlannerOptions {
+  stepMinutes?: number // time between samples, default 15
+  maxLength?: number // meters; longer shadows (sun near the horizon) are clipped to this
+}
+
+interface ShadowSample {
+  time: Date
+  sunAltitude: number // apparent altitude in degrees
+  sunAzimuth: number // degrees from North
+  length: number | null // meters, null while the sun is below the horizon
+  direction: number // degrees from North the shadow points to
+  clipped: boolean // length was capped at maxLength
+}
+
+interface ShadowFeatureProperties {
+  time: string // ISO 8601
+  length: number | null
+  direction: number
+  sunAltitude: number
+  sunAzimuth: number
+  clipped: boolean
+}
+
+type ShadowFeatureCollection = FeatureCollection<LineString, ShadowFeatureProperties>
+
+const DEFAULT_OPTIONS: Required<ShadowPlannerOptions> = {
+  stepMinutes: 15,
+  maxLength: 1000
+}
+
+const MAX_SAMPLES = 2000
+
+class ShadowPlanner {
+  /**
+   * Shadow length and direction of a vertical object at regular steps through a time range
+   */
+  getShadowSeries(
+    lat: number,
+    lon: number,
+    objectHeight: number,
+    start: Date,
+    end: Date,
+    options: ShadowPlannerOptions = {}
+  ): ShadowSample[] {
+    const settings = { ...DEFAULT_OPTIONS, ...options }
+    const stepMs = settings.stepMinutes * 60 * 1000
+
+    if (objectHeight <= 0 || isNaN(objectHeight)) {
+      throw new Error('Object height must be a positive number of meters')
+    }
+    if (end.getTime() < start.getTime()) {
+      throw new Error('End time must not be before start time')
+    }
+    if (!(stepMs > 0) || (end.getTime() - start.getTime()) / stepMs > MAX_SAMPLES) {
+      throw new Error(`Step must be positive and give at most ${MAX_SAMPLES} samples`)
+    }
+
+    const samples: ShadowSample[] = []
+    for (let time = start.getTime(); time <= end.getTime(); time += stepMs) {
+      samples.push(this.getShadowSample(lat, lon, objectHeight, new Date(time), settings.maxLength))
+    }
+    return samples
+  }
+
+  /**
+   * Shadow of a vertical object at one instant
+   */
+  getShadowSample(lat: number, lon: number, objectHeight: number, time: Date, maxLength = DEFAULT_OPTIONS.maxLength): ShadowSample {
+    const position = sunCalculator.getSunPosition(time, lat, lon)
+    // Shadows follow the sun we see, lifted by refraction near the horizon
+    const sunAltitude = position.altitude + solarPositionEngine.getRefraction(position.altitude)
+    const length = sunCalculator.calculateShadowLength(objectHeight, sunAltitude)
+
+    return {
+      time,
+      sunAltitude,
+      sunAzimuth: position.azimuth,
+      length: isFinite(length) ? Math.min(length, maxLength) : null,
+      direction: sunCalculator.calculateShadowDirection(position.azimuth),
+      clipped: isFinite(length) && length > maxLength
+    }
+  }
+
+  /**
+   * One line feature per sample, from the object's base to the tip of its shadow.
+   * Samples with the sun below the horizon have no shadow and are left out.
+   */
+  toGeoJSON(samples: ShadowSample[], lat: number, lon: number): ShadowFeatureCollection {
+    const features = samples
+      .filter(sample => sample.length !== null)
+      .map((sample): Feature<LineString, ShadowFeatureProperties> => {
+        const tip = destinationPoint(lat, lon, sample.direction, sample.length!)
+        return {
+          type: 'Feature',
+          geometry: {
+            type: 'LineString',
+            // GeoJSON positions are [longitude, latitude]
+            coordinates: [[lon, lat], [tip.lon, tip.lat]]
+          },
+          properties: {
+            time: sample.time.toISOString(),
+            length: sample.length,
+            direction: sample.direction,
+            sunAltitude: sample.sunAltitude,
+            sunAzimuth: sample.sunAzimuth,
+            clipped: sample.clipped
+          }
+        }
+      })
+
+    return { type: 'FeatureCollection', features }
+  }
+}
+
+export const shadowPlanner = new ShadowPlanner()
+export type {
+  ShadowPlannerOptions,
+  ShadowSample,
+  ShadowFeatureProperties,
+  ShadowFeatureCollection
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { skyColorPredictor } from './sky-color-predictor'
+import { sunCalculator } from './sun-calculator'
+import { FixedClock } from './clock'
+import { FixtureWeatherProvider } from './fixture-weather-provider'
+import { WeatherService } from './weather-service'
+import type { WeatherProvider } from './weather-provider'
+
+describe('skyColorPredictor.getSunGapPoint', () => {
+  it('looks about 150 km toward the sun, on a 0.1° grid', () => {
+    const gap = skyColorPredictor.getSunGapPoint(51.5074, -0.1278, 270)
+
+    expect(gap.lat).toBe(51.5)
+    expect(gap.lon).toBe(-2.3)
+  })
+
+  it('gives nearby places and successive days the same point', () => {
+    const options = { timezone: 'Europe/London' }
+    const azimuthOn = (date: string) =>
+      sunCalculator.getSunPosition(sunCalculator.getSunTimes(date, 51.5074, -0.1278, options).sunset!, 51.5074, -0.1278).azimuth
+
+    expect(skyColorPredictor.getSunGapPoint(51.5074, -0.1278, azimuthOn('2025-06-20')))
+      .toEqual(skyColorPredictor.getSunGapPoint(51.5074, -0.1278, azimuthOn('2025-06-21')))
+    expect(skyColorPredictor.getSunGapPoint(51.5074, -0.1278, 300))
+      .toEqual(skyColorPredictor.getSunGapPoint(51.5101, -0.1339, 300))
+  })
+})
+
+describe('WeatherService.getSkyColor', () => {
+  it('reuses the cached forecast toward the sun across nearby requests', async () => {
+    const fixture = new FixtureWeatherProvider({ clock: new FixedClock('2025-06-20T06:00:00Z') })
+    const requested: string[] = []
+    const counting: WeatherProvider = {
+      name: 'fixture',
+      getWeather: (lat, lon) => {
+        requested.push(`${lat}_${lon}`)
+        return fixture.getWeather(lat, lon)
+      }
+    }
+    const service = new WeatherService(counting)
+    const options = { timezone: 'Europe/London' }
+
+    await service.getSkyColor(51.5074, -0.1278, '2025-06-20', options)
+    const forecasts = await service.getSkyColor(51.5074, -0.1278, '2025-06-21', options)
+
+    // The location plus one gap point each for sunrise and sunset, then nothing new the next day
+    expect(forecasts.map(forecast => forecast.event)).toEqual(['sunrise', 'sunset'])
+    expect(requested).toHaveLength(3)
+  })
+})
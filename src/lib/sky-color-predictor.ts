@@ -0,0 +1,240 @@
+import type { WeatherData } from '@/types/weather'
+import { destinationPoint } from './horizon-profile'
+
+type SkyColorEvent = 'sunrise' | 'sunset'
+type SkyColorRating = 'fiery' | 'colorful' | 'muted' | 'dull'
+type SkyColorFactorName = 'clouds' | 'sun-gap' | 'humidity' | 'aerosol' | 'precipitation'
+
+interface SkyColorFactor {
+  factor: SkyColorFactorName
+  points: number // contribution to the score
+  max: number // most this factor can contribute
+  note: string
+}
+
+interface SkyColorInput {
+  event: SkyColorEvent
+  time: Date
+  sunAzimuth: number // degrees from North at the event
+  local: WeatherData // forecast overhead at the event
+  horizon: WeatherData | null // forecast under the sun's path, past the horizon; null when unavailable
+  recent: WeatherData[] // forecast entries for the hours before the event
+}
+
+interface SkyColorForecast {
+  event: SkyColorEvent
+  time: Date
+  sunAzimuth: number
+  score: number // 0-100
+  rating: SkyColorRating
+  explanation: string
+  factors: SkyColorFactor[]
+}
+
+// Low sunlight grazes the cloud base from below the horizon, so the gap it travels through
+// lies roughly this far out along the sun's azimuth
+const SUN_GAP_DISTANCE = 150 * 1000 // meters
+// The gap point is snapped to this grid so nearby locations and successive days share a cached forecast;
+// about 10 km, finer than the weather models resolve
+const SUN_GAP_GRID = 0.1 // degrees
+// How far back rain still counts as having washed the air
+const RECENT_PRECIPITATION_HOURS = 12
+
+/**
+ * Predicts how vividly clouds light up at sunrise or sunset. Color needs clouds overhead to act
+ * as a screen, a clear path toward the sun for light to reach them, and clean, dry air.
+ */
+class SkyColorPredictor {
+  /**
+   * Where to sample the weather that decides whether sunlight reaches the local clouds
+   */
+  getSunGapPoint(lat: number, lon: number, sunAzimuth: number): { lat: number; lon: number } {
+    const point = destinationPoint(lat, lon, sunAzimuth, SUN_GAP_DISTANCE)
+    const snap = (value: number) => Math.round(value / SUN_GAP_GRID) / (1 / SUN_GAP_GRID)
+    return { lat: snap(point.lat), lon: snap(point.lon) }
+  }
+
+  /**
+   * Score one sunrise or sunset from the weather overhead, toward the sun and over the hours before
+   */
+  predict(input: SkyColorInput): SkyColorForecast {
+    const { local } = input
+    const factors = [
+      this.getCloudFactor(local),
+      this.getSunGapFactor(input.horizon),
+      this.getHumidityFactor(local.humidity),
+      this.getAerosolFactor(local.visibility),
+      this.getPrecipitationFactor(local, input.recent)
+    ]
+
+    // Clean air and a clear path to the sun only matter if there are clouds to light up
+    const canvas = factors[0].points / factors[0].max
+    let score = factors.reduce((sum, factor) => sum + factor.points, 0) * (0.5 + 0.5 * canvas)
+    const notes = factors.map(factor => factor.note)
+
+    // Whatever the clouds do, rain or fog at the event hides them
+    if (this.isPrecipitation(local.conditionCode)) {
+      score *= 0.3
+    } else if (local.conditionCode !== undefined && local.conditionCode >= 701 && local.conditionCode <= 762) {
+      score *= 0.2
+      notes.unshift('Fog or haze will hide the sky')
+    }
+
+    score = Math.round(Math.max(0, Math.min(100, score)))
+
+    return {
+      event: input.event,
+      time: input.time,
+      sunAzimuth: input.sunAzimuth,
+      score,
+      rating: this.getRating(score),
+      explanation: notes.join('. ') + '.',
+      factors
+    }
+  }
+
+  /**
+   * Mid and high clouds catch color long after the ground is in shade; low cloud overhead mostly
+   * blocks the view. Without layers, partial cover is the best guess for a good canvas.
+   */
+  private getCloudFactor(weather: WeatherData): SkyColorFactor {
+    const max = 40
+
+    if (weather.cloudLayers) {
+      const { low, mid, high } = weather.cloudLayers
+      const canvas = Math.min(1, (high + 0.8 * mid) / 60)
+      const blocking = low > 50 ? (low - 50) / 50 : 0
+      const points = Math.round(max * canvas * (1 - 0.8 * blocking))
+
+      let note: string
+      if (low > 70) note = `Low cloud (${low}%) overhead will likely block the color`
+      else if (canvas >= 0.6) note = `Mid and high cloud (${mid}% / ${high}%) make a good canvas for color`
+      else if (canvas > 0.2) note = `Some mid and high cloud (${mid}% / ${high}%) to catch the light`
+      else note = 'Few high clouds to catch the light'
+
+      return { factor: 'clouds', points, max, note }
+    }
+
+    const clouds = weather.clouds
+    // Peaks at 30-60% cover, falling off toward a bare sky and toward overcast
+    const canvas = clouds < 30 ? clouds / 30 : clouds <= 60 ? 1 : Math.max(0, (100 - clouds) / 40)
+    const points = Math.round(max * canvas)
+
+    let note: string
+    if (clouds > 85) note = `Near-overcast sky (${clouds}%) leaves little room for color`
+    else if (clouds >= 30 && clouds <= 60) note = `Partial cloud cover (${clouds}%) is ideal for color`
+    else if (clouds < 10) note = 'Clear sky: a clean glow on the horizon, but no clouds to light up'
+    else note = `Cloud cover of ${clouds}% gives some canvas for color`
+
+    return { factor: 'clouds', points, max, note }
+  }
+
+  /**
+   * Light reaches the local clouds only through a gap in the low cloud under the sun's path
+   */
+  private getSunGapFactor(horizon: WeatherData | null): SkyColorFactor {
+    const max = 25
+
+    if (!horizon) {
+      return { factor: 'sun-gap', points: Math.round(max / 2), max, note: 'No forecast toward the sun to check for a clear gap' }
+    }
+
+    const blocking = horizon.cloudLayers ? horizon.cloudLayers.low : horizon.clouds
+    const points = Math.round(max * Math.max(0, Math.min(1, (90 - blocking) / 60)))
+
+    let note: string
+    if (blocking <= 30) note = 'Clear gap toward the sun lets light reach the clouds'
+    else if (blocking < 75) note = `Partly blocked toward the sun (${blocking}% ${horizon.cloudLayers ? 'low cloud' : 'cloud'})`
+    else note = `Cloud bank toward the sun (${blocking}%) will likely cut off the light`
+
+    return { factor: 'sun-gap', points, max, note }
+  }
+
+  /**
+   * Moist air scatters and dims the low sun before it reaches the clouds
+   */
+  private getHumidityFactor(humidity: number): SkyColorFactor {
+    const max = 10
+    const points = Math.round(max * Math.max(0, Math.min(1, (95 - humidity) / 35)))
+
+    const note = humidity > 85
+      ? `Very humid air (${humidity}%) will wash out the colors`
+      : humidity > 70
+        ? `Humid air (${humidity}%) may soften the colors`
+        : `Dry air (${humidity}%) keeps colors saturated`
+
+    return { factor: 'humidity', points, max, note }
+  }
+
+  /**
+   * Visibility stands in for aerosol load: a little deepens reds, a lot turns the sky grey
+   */
+  private getAerosolFactor(visibility: number): SkyColorFactor {
+    const max = 10
+    let points: number
+    let note: string
+
+    if (visibility >= 10) {
+      points = max
+      note = 'Clean air with good visibility'
+    } else if (visibility >= 5) {
+      points = 7
+      note = `Light haze (${visibility} km visibility) can deepen the reds`
+    } else if (visibility >= 2) {
+      points = 3
+      note = `Hazy air (${visibility} km visibility) will dull the colors`
+    } else {
+      points = 0
+      note = `Very poor visibility (${visibility} km)`
+    }
+
+    return { factor: 'aerosol', points, max, note }
+  }
+
+  /**
+   * Rain that has just passed clears dust from the air and often leaves broken cloud behind
+   */
+  private getPrecipitationFactor(local: WeatherData, recent: WeatherData[]): SkyColorFactor {
+    const max = 15
+    const rained = recent.some(entry =>
+      this.isPrecipitation(entry.conditionCode) || (entry.precipitationProbability ?? 0) >= 0.6
+    )
+
+    if (rained && !this.isPrecipitation(local.conditionCode)) {
+      return { factor: 'precipitation', points: max, max, note: 'Rain clearing beforehand leaves freshly washed air' }
+    }
+
+    if (this.isPrecipitation(local.conditionCode)) {
+      return { factor: 'precipitation', points: 0, max, note: 'Rain at the time of the event will mute any color' }
+    }
+
+    return {
+      factor: 'precipitation',
+      points: Math.round(max / 3),
+      max,
+      note: `No rain in the ${RECENT_PRECIPITATION_HOURS} hours before`
+    }
+  }
+
+  private isPrecipitation(conditionCode: number | undefined): boolean {
+    return conditionCode !== undefined && conditionCode >= 200 && conditionCode < 700
+  }
+
+  private getRating(score: number): SkyColorRating {
+    if (score >= 70) return 'fiery'
+    if (score >= 50) return 'colorful'
+    if (score >= 30) return 'muted'
+    return 'dull'
+  }
+}
+
+export const skyColorPredictor = new SkyColorPredictor()
+export { RECENT_PRECIPITATION_HOURS }
+export type {
+  SkyColorEvent,
+  SkyColorRating,
+  SkyColorFactorName,
+  SkyColorFactor,
+  SkyColorInput,
+  SkyColorForecast
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { solarAlmanacGenerator } from './solar-almanac'
+
+const MINUTE = 60 * 1000
+
+// USNO "Earth's Seasons" for 2025, in UT
+const SEASONS_2025 = {
+  'march-equinox': Date.parse('2025-03-20T09:01:00Z'),
+  'june-solstice': Date.parse('2025-06-21T02:42:00Z'),
+  'september-equinox': Date.parse('2025-09-22T18:19:00Z'),
+  'december-solstice': Date.parse('2025-12-21T15:03:00Z')
+}
+
+describe('solarAlmanacGenerator', () => {
+  it('finds the equinoxes and solstices to within a minute or two', () => {
+    const events = solarAlmanacGenerator.getSeasonalEvents(2025)
+
+    expect(events.map(event => event.type)).toEqual(Object.keys(SEASONS_2025))
+    for (const event of events) {
+      expect(Math.abs(event.time.getTime() - SEASONS_2025[event.type])).toBeLessThan(2 * MINUTE)
+    }
+  })
+
+  it('flags the day of each event in the almanac timezone', () => {
+    const london = solarAlmanacGenerator.generate(51.5074, -0.1278, 2025, { timezone: 'Europe/London' })
+    const sydney = solarAlmanacGenerator.generate(-33.8688, 151.2093, 2025, { timezone: 'Australia/Sydney' })
+    const flagged = (days: typeof london.days) => days
+      .filter(day => day.event)
+      .map(day => [day.date, day.event!.type])
+
+    expect(london.days).toHaveLength(365)
+    expect(flagged(london.days)).toEqual([
+      ['2025-03-20', 'march-equinox'],
+      ['2025-06-21', 'june-solstice'],
+      ['2025-09-22', 'september-equinox'],
+      ['2025-12-21', 'december-solstice']
+    ])
+    // 15:03 UT on 21 December is already the 22nd in Sydney
+    expect(flagged(sydney.days)).toEqual([
+      ['2025-03-20', 'march-equinox'],
+      ['2025-06-21', 'june-solstice'],
+      ['2025-09-23', 'september-equinox'],
+      ['2025-12-22', 'december-solstice']
+    ])
+  }, 20000)
+})
@@ -0,0 +1,185 @@
+import { sunCalculator, type DayState, type SunCalculationOptions } from './sun-calculator'
+import { solarPositionEngine } from './solar-position'
+import { addDays, getZonedDateKey, getZonedDateParts, resolveTimeZone } from './timezone-utils'
+
+type SeasonalEventType = 'march-equinox' | 'june-solstice' | 'september-equinox' | 'december-solstice'
+
+interface SeasonalEvent {
+  type: SeasonalEventType
+  time: Date
+}
+
+interface AlmanacWindow {
+  start: Date
+  end: Date
+}
+
+interface AlmanacDay {
+  date: string // YYYY-MM-DD in the almanac's timezone
+  dayState: DayState
+  sunrise: Date | null
+  sunset: Date | null
+  solarNoon: Date
+  dayLength: number // in minutes
+  sunriseAzimuth: number | null // degrees from North
+  sunsetAzimuth: number | null // degrees from North
+  goldenHour: {
+    morning: AlmanacWindow | null
+    evening: AlmanacWindow | null
+  }
+  blueHour: {
+    morning: AlmanacWindow | null
+    evening: AlmanacWindow | null
+  }
+  event: SeasonalEvent | null
+}
+
+interface SolarAlmanac {
+  lat: number
+  lon: number
+  year: number
+  timezone: string
+  events: SeasonalEvent[]
+  days: AlmanacDay[]
+}
+
+const SEASONAL_EVENTS: { type: SeasonalEventType; longitude: number; month: number; day: number }[] = [
+  { type: 'march-equinox', longitude: 0, month: 3, day: 20 },
+  { type: 'june-solstice', longitude: 90, month: 6, day: 21 },
+  { type: 'september-equinox', longitude: 180, month: 9, day: 22 },
+  { type: 'december-solstice', longitude: 270, month: 12, day: 21 }
+]
+
+const CSV_COLUMNS = [
+  'date',
+  'day_state',
+  'sunrise',
+  'sunset',
+  'solar_noon',
+  'day_length_min',
+  'sunrise_azimuth',
+  'sunset_azimuth',
+  'morning_blue_start',
+  'morning_blue_end',
+  'morning_golden_start',
+  'morning_golden_end',
+  'evening_golden_start',
+  'evening_golden_end',
+  'evening_blue_start',
+  'evening_blue_end',
+  'event'
+]
+
+class SolarAlmanacGenerator {
+  /**
+   * Build a day-by-day almanac for a location and calendar year in the location's timezone
+   */
+  generate(lat: number, lon: number, year: number, options: SunCalculationOptions = {}): SolarAlmanac {
+    const timezone = resolveTimeZone(options.timezone)
+    const settings = { ...options, timezone }
+    const bands = sunCalculator.resolveLightBands(options.bands)
+    const events = this.getSeasonalEvents(year)
+    const eventsByDate = new Map(events.map(event => [getZonedDateKey(event.time, timezone), event]))
+    const days: AlmanacDay[] = []
+
+    for (let key = `${year}-01-01`; key.startsWith(String(year)); key = addDays(key, 1)) {
+      const sunTimes = sunCalculator.getSunTimes(key, lat, lon, settings)
+      const dayState = sunCalculator.getDayState(key, lat, lon, settings)
+      // Band windows only, read off one pass over the day's sun; quality and intensity would double the cost
+      const [golden, blue] = sunCalculator.findAltitudeBandsPeriods(key, lat, lon, [bands.golden, bands.blue], settings)
+
+      let dayLength = 0
+      if (dayState === 'midnight-sun') {
+        dayLength = 24 * 60
+      } else if (sunTimes.sunrise && sunTimes.sunset) {
+        dayLength = (sunTimes.sunset.getTime() - sunTimes.sunrise.getTime()) / (1000 * 60)
+      }
+
+      days.push({
+        date: key,
+        dayState,
+        sunrise: sunTimes.sunrise,
+        sunset: sunTimes.sunset,
+        solarNoon: sunTimes.solarNoon,
+        dayLength: Math.round(dayLength),
+        sunriseAzimuth: sunTimes.sunrise ? sunCalculator.getSunPosition(sunTimes.sunrise, lat, lon).azimuth : null,
+        sunsetAzimuth: sunTimes.sunset ? sunCalculator.getSunPosition(sunTimes.sunset, lat, lon).azimuth : null,
+        goldenHour: golden,
+        blueHour: blue,
+        event: eventsByDate.get(key) ?? null
+      })
+    }
+
+    return { lat, lon, year, timezone, events, days }
+  }
+
+  /**
+   * Instants of the equinoxes and solstices of a year, when the sun's apparent longitude
+   * reaches a multiple of 90°
+   */
+  getSeasonalEvents(year: number): SeasonalEvent[] {
+    const dayMs = 24 * 60 * 60 * 1000
+
+    return SEASONAL_EVENTS.map(({ type, longitude, month, day }) => {
+      // Signed distance from the target longitude, wrapped to -180..180
+      const offset = (time: number) =>
+        ((solarPositionEngine.calculate(new Date(time), 0, 0).eclipticLongitude - longitude + 540) % 360) - 180
+
+      let low = Date.UTC(year, month - 1, day) - 5 * dayMs
+      let high = low + 10 * dayMs
+      while (high - low > 1000) {
+        const mid = (low + high) / 2
+        if (offset(mid) < 0) {
+          low = mid
+        } else {
+          high = mid
+        }
+      }
+
+      return { type, time: new Date(Math.round((low + high) / 2)) }
+    })
+  }
+
+  /**
+   * Flatten an almanac to CSV, with times as local HH:MM and azimuths in degrees
+   */
+  toCSV(almanac: SolarAlmanac): string {
+    const time = (date: Date | null | undefined) => {
+      if (!date) return ''
+      const { hour, minute } = getZonedDateParts(date, almanac.timezone)
+      return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+    }
+    const angle = (value: number | null) => (value === null ? '' : value.toFixed(1))
+
+    const rows = almanac.days.map(day => [
+      day.date,
+      day.dayState,
+      time(day.sunrise),
+      time(day.sunset),
+      time(day.solarNoon),
+      String(day.dayLength),
+      angle(day.sunriseAzimuth),
+      angle(day.sunsetAzimuth),
+      time(day.blueHour.morning?.start),
+      time(day.blueHour.morning?.end),
+      time(day.goldenHour.morning?.start),
+      time(day.goldenHour.morning?.end),
+      time(day.goldenHour.evening?.start),
+      time(day.goldenHour.evening?.end),
+      time(day.blueHour.evening?.start),
+      time(day.blueHour.evening?.end),
+      day.event ? `${day.event.type} ${time(day.event.time)}` : ''
+    ].join(','))
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+  }
+}
+
+export const solarAlmanacGenerator = new SolarAlmanacGenerator()
+export type {
+  SeasonalEventType,
+  SeasonalEvent,
+  AlmanacWindow,
+  AlmanacDay,
+  SolarAlmanac
+}
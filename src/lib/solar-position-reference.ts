@@ -0,0 +1,175 @@
+import { solarPositionEngine, type SolarPositionOptions } from './solar-position'
+
+interface SolarPositionReferenceCase {
+  name: string
+  source: string
+  date: Date
+  lat: number
+  lon: number
+  options: SolarPositionOptions
+  refracted: boolean // whether the expected zenith includes atmospheric refraction
+  tolerance: number // degrees; the equation of time is allowed four times this in minutes
+  expected: {
+    zenith: number // degrees
+    azimuth: number // degrees from North
+    equationOfTime?: number // minutes
+  }
+}
+
+interface SolarPositionCheck {
+  name: string
+  zenithError: number // degrees
+  azimuthError: number // degrees
+  equationOfTimeError: number | null // minutes
+  passed: boolean
+}
+
+const SPA_PAPER = 'Reda & Andreas (2004), NREL/TP-560-34302, Table A5.1'
+// NOAA's calculator uses Meeus's low-precision series, good to about 0.01° between ±72° latitude,
+// and ignores ΔT and parallax. Its elevation before refraction is what these cases record.
+const NOAA_CALCULATOR = 'NOAA ESRL Solar Calculator (NOAA_Solar_Calculations_day.xls), geometric elevation'
+const NOAA_TOLERANCE = 0.015
+
+// Known-good positions the engine must reproduce
+const SOLAR_POSITION_REFERENCE_CASES: SolarPositionReferenceCase[] = [
+  {
+    name: 'Golden, Colorado — 17 Oct 2003 12:30:30 MST',
+    source: SPA_PAPER,
+    date: new Date('2003-10-17T19:30:30Z'),
+    lat: 39.742476,
+    lon: -105.1786,
+    options: { elevation: 1830.14, pressure: 820, temperature: 11, deltaT: 67 },
+    refracted: true,
+    tolerance: 0.0001,
+    expected: { zenith: 50.11162, azimuth: 194.34024, equationOfTime: 14.641503 }
+  },
+  {
+    name: 'Greenwich — March equinox noon',
+    source: NOAA_CALCULATOR,
+    date: new Date('2024-03-20T12:00:00Z'),
+    lat: 51.4769,
+    lon: -0.0005,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 51.353, azimuth: 177.6654, equationOfTime: -7.291 }
+  },
+  {
+    name: 'Paris — summer solstice morning',
+    source: NOAA_CALCULATOR,
+    date: new Date('2025-06-21T10:00:00Z'),
+    lat: 48.8566,
+    lon: 2.3522,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 33.697, azimuth: 128.81, equationOfTime: -1.856 }
+  },
+  {
+    name: 'New York — winter solstice afternoon',
+    source: NOAA_CALCULATOR,
+    date: new Date('2024-12-21T20:30:00Z'),
+    lat: 40.7128,
+    lon: -74.006,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 81.3375, azimuth: 228.5548, equationOfTime: 1.502 }
+  },
+  {
+    name: 'Quito — equator, September afternoon',
+    source: NOAA_CALCULATOR,
+    date: new Date('2024-09-15T20:00:00Z'),
+    lat: -0.1807,
+    lon: -78.4678,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 42.8732, azimuth: 274.011, equationOfTime: 5.061 }
+  },
+  {
+    name: 'Sydney — southern summer morning',
+    source: NOAA_CALCULATOR,
+    date: new Date('2025-01-15T23:00:00Z'),
+    lat: -33.8688,
+    lon: 151.2093,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 42.6204, azimuth: 84.6159, equationOfTime: -9.652 }
+  },
+  {
+    name: 'Cape Town — southern winter solstice noon',
+    source: NOAA_CALCULATOR,
+    date: new Date('2024-06-21T10:45:00Z'),
+    lat: -33.9249,
+    lon: 18.4241,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 57.3675, azimuth: 0.8763, equationOfTime: -1.914 }
+  },
+  {
+    name: 'Ushuaia — southern high latitude, December evening',
+    source: NOAA_CALCULATOR,
+    date: new Date('2024-12-10T23:30:00Z'),
+    lat: -54.8019,
+    lon: -68.303,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 79.9634, azimuth: 244.026, equationOfTime: 6.762 }
+  },
+  {
+    name: 'Reykjavik — October morning',
+    source: NOAA_CALCULATOR,
+    date: new Date('2024-10-05T10:00:00Z'),
+    lat: 64.1466,
+    lon: -21.9426,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 78.0851, azimuth: 129.7733, equationOfTime: 11.705 }
+  },
+  {
+    name: 'Tromsø — March equinox morning',
+    source: NOAA_CALCULATOR,
+    date: new Date('2025-03-20T08:00:00Z'),
+    lat: 69.6492,
+    lon: 18.9553,
+    options: {},
+    refracted: false,
+    tolerance: NOAA_TOLERANCE,
+    expected: { zenith: 75.2539, azimuth: 135.2615, equationOfTime: -7.411 }
+  }
+]
+
+/**
+ * Run the engine against every reference case, each within its own source's precision
+ */
+export function validateSolarPosition(
+  cases: SolarPositionReferenceCase[] = SOLAR_POSITION_REFERENCE_CASES
+): SolarPositionCheck[] {
+  return cases.map(reference => {
+    const result = solarPositionEngine.calculate(reference.date, reference.lat, reference.lon, reference.options)
+    const zenith = reference.refracted ? result.zenith : 90 - result.geometricElevation
+    const zenithError = Math.abs(zenith - reference.expected.zenith)
+    const azimuthError = Math.abs(((result.azimuth - reference.expected.azimuth + 540) % 360) - 180)
+    const equationOfTimeError = reference.expected.equationOfTime === undefined
+      ? null
+      : Math.abs(result.equationOfTime - reference.expected.equationOfTime)
+
+    return {
+      name: reference.name,
+      zenithError,
+      azimuthError,
+      equationOfTimeError,
+      passed: zenithError <= reference.tolerance &&
+        azimuthError <= reference.tolerance &&
+        (equationOfTimeError === null || equationOfTimeError <= reference.tolerance * 4) // 1° = 4 minutes
+    }
+  })
+}
+
+export { SOLAR_POSITION_REFERENCE_CASES }
+export type { SolarPositionReferenceCase, SolarPositionCheck }
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { SOLAR_POSITION_REFERENCE_CASES, validateSolarPosition } from './solar-position-reference'
+
+describe('solarPositionEngine', () => {
+  const checks = validateSolarPosition()
+
+  it.each(checks.map(check => [check.name, check] as const))('matches the reference position for %s', (_name, check) => {
+    const reference = SOLAR_POSITION_REFERENCE_CASES.find(item => item.name === check.name)!
+
+    expect(check.zenithError).toBeLessThanOrEqual(reference.tolerance)
+    expect(check.azimuthError).toBeLessThanOrEqual(reference.tolerance)
+    if (check.equationOfTimeError !== null) {
+      expect(check.equationOfTimeError).toBeLessThanOrEqual(reference.tolerance * 4)
+    }
+    expect(check.passed).toBe(true)
+  })
+
+  it('covers high latitudes and the southern hemisphere', () => {
+    expect(SOLAR_POSITION_REFERENCE_CASES.some(reference => reference.lat > 60)).toBe(true)
+    expect(SOLAR_POSITION_REFERENCE_CASES.some(reference => reference.lat < -50)).toBe(true)
+  })
+})
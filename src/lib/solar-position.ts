@@ -0,0 +1,303 @@
+import {
+  EARTH_LATITUDE_TERMS,
+  EARTH_LONGITUDE_TERMS,
+  EARTH_RADIUS_TERMS,
+  NUTATION_ARGUMENT_TERMS,
+  NUTATION_COEFFICIENT_TERMS
+} from './solar-position-terms'
+
+interface SolarPositionOptions {
+  elevation?: number // observer elevation in meters above sea level
+  pressure?: number // annual average local pressure in millibars
+  temperature?: number // annual average local temperature in °C
+  deltaT?: number // TT - UT in seconds, estimated from the date when omitted
+}
+
+interface SolarPositionResult {
+  julianDay: number
+  deltaT: number // seconds used for the calculation
+  zenith: number // topocentric zenith angle in degrees, refraction corrected
+  azimuth: number // degrees from North (0-360)
+  elevation: number // degrees above horizon, refraction corrected
+  geometricElevation: number // degrees above horizon, no refraction
+  declination: number // topocentric declination in degrees
+  rightAscension: number // topocentric right ascension in degrees
+  hourAngle: number // topocentric local hour angle in degrees
+  distance: number // Earth-Sun distance in AU
+  eclipticLongitude: number // apparent geocentric longitude in degrees, 0 at the March equinox
+  equationOfTime: number // minutes, apparent minus mean solar time
+}
+
+const DEFAULT_OPTIONS: Required<Omit<SolarPositionOptions, 'deltaT'>> = {
+  elevation: 0,
+  pressure: 1010,
+  temperature: 10
+}
+
+const SUN_RADIUS = 0.26667 // degrees
+const toRad = Math.PI / 180
+
+function limitDegrees(degrees: number): number {
+  const limited = degrees % 360
+  return limited < 0 ? limited + 360 : limited
+}
+
+function limitDegrees180pm(degrees: number): number {
+  const limited = limitDegrees(degrees)
+  return limited > 180 ? limited - 360 : limited
+}
+
+function limitMinutes(minutes: number): number {
+  if (minutes < -20) return minutes + 1440
+  if (minutes > 20) return minutes - 1440
+  return minutes
+}
+
+function polynomial(x: number, coefficients: number[]): number {
+  return coefficients.reduceRight((sum, coefficient) => sum * x + coefficient, 0)
+}
+
+/**
+ * Solar position after the NREL Solar Position Algorithm (Reda & Andreas, 2004),
+ * accurate to about ±0.0003° between the years -2000 and 6000.
+ */
+class SolarPositionEngine {
+  /**
+   * Topocentric position of the sun for an instant and location
+   */
+  calculate(date: Date, lat: number, lon: number, options: SolarPositionOptions = {}): SolarPositionResult {
+    const { elevation, pressure, temperature } = { ...DEFAULT_OPTIONS, ...options }
+    const deltaT = options.deltaT ?? this.getDeltaT(date)
+
+    const jd = this.getJulianDay(date)
+    const jde = jd + deltaT / 86400
+    const jc = (jd - 2451545) / 36525
+    const jce = (jde - 2451545) / 36525
+    const jme = jce / 10
+
+    // Earth heliocentric position, then the geocentric sun
+    const l = limitDegrees(this.sumEarthTerms(EARTH_LONGITUDE_TERMS, jme) / toRad)
+    const b = this.sumEarthTerms(EARTH_LATITUDE_TERMS, jme) / toRad
+    const r = this.sumEarthTerms(EARTH_RADIUS_TERMS, jme)
+    const theta = limitDegrees(l + 180)
+    const beta = -b
+
+    const { deltaPsi, deltaEpsilon } = this.getNutation(jce)
+    const epsilon = this.getMeanObliquity(jme) / 3600 + deltaEpsilon
+    const aberration = -20.4898 / (3600 * r)
+    const lambda = theta + deltaPsi + aberration
+
+    const nu = this.getApparentSiderealTime(jd, jc, deltaPsi, epsilon)
+
+    const sinLambda = Math.sin(lambda * toRad)
+    const alpha = limitDegrees(Math.atan2(
+      sinLambda * Math.cos(epsilon * toRad) - Math.tan(beta * toRad) * Math.sin(epsilon * toRad),
+      Math.cos(lambda * toRad)
+    ) / toRad)
+    const delta = Math.asin(
+      Math.sin(beta * toRad) * Math.cos(epsilon * toRad) +
+      Math.cos(beta * toRad) * Math.sin(epsilon * toRad) * sinLambda
+    ) / toRad
+    const h = limitDegrees(nu + lon - alpha)
+
+    // Parallax: shift from the Earth's center to the observer on its surface
+    const xi = 8.794 / (3600 * r)
+    const u = Math.atan(0.99664719 * Math.tan(lat * toRad))
+    const x = Math.cos(u) + (elevation / 6378140) * Math.cos(lat * toRad)
+    const y = 0.99664719 * Math.sin(u) + (elevation / 6378140) * Math.sin(lat * toRad)
+    const deltaAlpha = Math.atan2(
+      -x * Math.sin(xi * toRad) * Math.sin(h * toRad),
+      Math.cos(delta * toRad) - x * Math.sin(xi * toRad) * Math.cos(h * toRad)
+    ) / toRad
+    const deltaPrime = Math.atan2(
+      (Math.sin(delta * toRad) - y * Math.sin(xi * toRad)) * Math.cos(deltaAlpha * toRad),
+      Math.cos(delta * toRad) - x * Math.sin(xi * toRad) * Math.cos(h * toRad)
+    ) / toRad
+    const alphaPrime = limitDegrees(alpha + deltaAlpha)
+    const hPrime = limitDegrees(h - deltaAlpha)
+
+    const e0 = Math.asin(
+      Math.sin(lat * toRad) * Math.sin(deltaPrime * toRad) +
+      Math.cos(lat * toRad) * Math.cos(deltaPrime * toRad) * Math.cos(hPrime * toRad)
+    ) / toRad
+    const apparentElevation = e0 + this.getRefraction(e0, pressure, temperature)
+
+    const azimuth = limitDegrees(Math.atan2(
+      Math.sin(hPrime * toRad),
+      Math.cos(hPrime * toRad) * Math.sin(lat * toRad) - Math.tan(deltaPrime * toRad) * Math.cos(lat * toRad)
+    ) / toRad + 180)
+
+    return {
+      julianDay: jd,
+      deltaT,
+      zenith: 90 - apparentElevation,
+      azimuth,
+      elevation: apparentElevation,
+      geometricElevation: e0,
+      declination: deltaPrime,
+      rightAscension: alphaPrime,
+      hourAngle: limitDegrees180pm(hPrime),
+      distance: r,
+      eclipticLongitude: limitDegrees(lambda),
+      equationOfTime: this.getEquationOfTime(jme, alpha, deltaPsi, epsilon)
+    }
+  }
+
+  /**
+   * Estimate ΔT (TT - UT) in seconds with the Espenak & Meeus polynomials.
+   * Beyond the observed record this is an extrapolation and drifts by tens of seconds per century.
+   */
+  getDeltaT(date: Date): number {
+    const year = date.getUTCFullYear() + (date.getUTCMonth() + 0.5) / 12
+
+    if (year < -500 || year >= 2150) {
+      return polynomial((year - 1820) / 100, [-20, 0, 32])
+    }
+    if (year < 500) {
+      return polynomial(year / 100, [10583.6, -1014.41, 33.78311, -5.952053, -0.1798452, 0.022174192, 0.0090316521])
+    }
+    if (year < 1600) {
+      return polynomial((year - 1000) / 100, [1574.2, -556.01, 71.23472, 0.319781, -0.8503463, -0.005050998, 0.0083572073])
+    }
+    if (year < 1700) {
+      return polynomial(year - 1600, [120, -0.9808, -0.01532, 1 / 7129])
+    }
+    if (year < 1800) {
+      return polynomial(year - 1700, [8.83, 0.1603, -0.0059285, 0.00013336, -1 / 1174000])
+    }
+    if (year < 1860) {
+      return polynomial(year - 1800, [13.72, -0.332447, 0.0068612, 0.0041116, -0.00037436, 0.0000121272, -0.0000001699, 0.000000000875])
+    }
+    if (year < 1900) {
+      return polynomial(year - 1860, [7.62, 0.5737, -0.251754, 0.01680668, -0.0004473624, 1 / 233174])
+    }
+    if (year < 1920) {
+      return polynomial(year - 1900, [-2.79, 1.494119, -0.0598939, 0.0061966, -0.000197])
+    }
+    if (year < 1941) {
+      return polynomial(year - 1920, [21.2, 0.84493, -0.0761, 0.0020936])
+    }
+    if (year < 1961) {
+      return polynomial(year - 1950, [29.07, 0.407, -1 / 233, 1 / 2547])
+    }
+    if (year < 1986) {
+      return polynomial(year - 1975, [45.45, 1.067, -1 / 260, -1 / 718])
+    }
+    if (year < 2005) {
+      return polynomial(year - 2000, [63.86, 0.3345, -0.060374, 0.0017275, 0.000651814, 0.00002373599])
+    }
+    if (year < 2050) {
+      return polynomial(year - 2000, [62.92, 0.32217, 0.005589])
+    }
+    return polynomial((year - 1820) / 100, [-20, 0, 32]) - 0.5628 * (2150 - year)
+  }
+
+  /**
+   * Julian day of an instant (UT)
+   */
+  getJulianDay(date: Date): number {
+    return date.getTime() / 86400000 + 2440587.5
+  }
+
+  /**
+   * Atmospheric refraction in degrees, zero once the sun's upper limb is below the horizon
+   */
+  getRefraction(elevation: number, pressure = DEFAULT_OPTIONS.pressure, temperature = DEFAULT_OPTIONS.temperature): number {
+    if (elevation < -(SUN_RADIUS + 0.5667)) return 0
+    return (pressure / 1010) * (283 / (273 + temperature)) *
+      1.02 / (60 * Math.tan((elevation + 10.3 / (elevation + 5.11)) * toRad))
+  }
+
+  /**
+   * Geometric altitude of the sun's center when its upper limb touches an apparent horizon
+   * `horizon` degrees up (negative for a dipped horizon), under the given air conditions.
+   * About -0.90° at 1010 hPa and 10 °C, a little below the conventional -0.833°, which takes
+   * refraction as a flat 34′.
+   */
+  getRiseSetAltitude(pressure = DEFAULT_OPTIONS.pressure, temperature = DEFAULT_OPTIONS.temperature, horizon = 0): number {
+    // Same refraction formula as getRefraction, without its cut-off, which sits right at the horizon
+    const refraction = (elevation: number) => (pressure / 1010) * (283 / (273 + temperature)) *
+      1.02 / (60 * Math.tan((elevation + 10.3 / (elevation + 5.11)) * toRad))
+    const target = horizon - SUN_RADIUS
+
+    // Apparent altitude rises monotonically with geometric altitude here, so bisect
+    let low = target - 5
+    let high = target + 1
+    while (high - low > 1e-6) {
+      const mid = (low + high) / 2
+      if (mid + refraction(mid) < target) {
+        low = mid
+      } else {
+        high = mid
+      }
+    }
+
+    return (low + high) / 2
+  }
+
+  /**
+   * Evaluate one of the VSOP87 series (L, B or R) in radians / AU
+   */
+  private sumEarthTerms(terms: number[][][], jme: number): number {
+    const sums = terms.map(group =>
+      group.reduce((sum, [a, b, c]) => sum + a * Math.cos(b + c * jme), 0)
+    )
+    return polynomial(jme, sums) / 1e8
+  }
+
+  /**
+   * Nutation in longitude and obliquity, in degrees
+   */
+  private getNutation(jce: number): { deltaPsi: number; deltaEpsilon: number } {
+    const args = [
+      polynomial(jce, [297.85036, 445267.11148, -0.0019142, 1 / 189474]), // mean elongation of the moon
+      polynomial(jce, [357.52772, 35999.05034, -0.0001603, -1 / 300000]), // mean anomaly of the sun
+      polynomial(jce, [134.96298, 477198.867398, 0.0086972, 1 / 56250]), // mean anomaly of the moon
+      polynomial(jce, [93.27191, 483202.017538, -0.0036825, 1 / 327270]), // moon's argument of latitude
+      polynomial(jce, [125.04452, -1934.136261, 0.0020708, 1 / 450000]) // ascending node of the moon
+    ]
+
+    let deltaPsi = 0
+    let deltaEpsilon = 0
+    NUTATION_ARGUMENT_TERMS.forEach((multipliers, i) => {
+      const argument = multipliers.reduce((sum, multiplier, j) => sum + multiplier * args[j], 0) * toRad
+      const [a, b, c, d] = NUTATION_COEFFICIENT_TERMS[i]
+      deltaPsi += (a + b * jce) * Math.sin(argument)
+      deltaEpsilon += (c + d * jce) * Math.cos(argument)
+    })
+
+    return { deltaPsi: deltaPsi / 36000000, deltaEpsilon: deltaEpsilon / 36000000 }
+  }
+
+  /**
+   * Mean obliquity of the ecliptic in arcseconds (Laskar)
+   */
+  private getMeanObliquity(jme: number): number {
+    return polynomial(jme / 10, [
+      84381.448, -4680.93, -1.55, 1999.25, -51.38, -249.67, -39.05, 7.12, 27.87, 5.79, 2.45
+    ])
+  }
+
+  /**
+   * Apparent sidereal time at Greenwich in degrees
+   */
+  private getApparentSiderealTime(jd: number, jc: number, deltaPsi: number, epsilon: number): number {
+    const nu0 = limitDegrees(
+      280.46061837 + 360.98564736629 * (jd - 2451545) + jc * jc * (0.000387933 - jc / 38710000)
+    )
+    return nu0 + deltaPsi * Math.cos(epsilon * toRad)
+  }
+
+  /**
+   * Equation of time in minutes
+   */
+  private getEquationOfTime(jme: number, alpha: number, deltaPsi: number, epsilon: number): number {
+    const meanLongitude = limitDegrees(
+      polynomial(jme, [280.4664567, 360007.6982779, 0.03032028, 1 / 49931, -1 / 15300, -1 / 2000000])
+    )
+    return limitMinutes(4 * (meanLongitude - 0.0057183 - alpha + deltaPsi * Math.cos(epsilon * toRad)))
+  }
+}
+
+export const solarPositionEngine = new SolarPositionEngine()
+export type { SolarPositionOptions, SolarPositionResult }
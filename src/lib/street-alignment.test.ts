@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { streetAlignmentFinder, STREET_GRID_PRESETS } from './street-alignment'
+
+// 42nd Street at Times Square, looking along the cross streets of the 29° Manhattan grid
+const TIMES_SQUARE = { lat: 40.758, lon: -73.9855 }
+
+describe('streetAlignmentFinder.findAlignments', () => {
+  const year = streetAlignmentFinder.findAlignments(
+    TIMES_SQUARE.lat,
+    TIMES_SQUARE.lon,
+    STREET_GRID_PRESETS.nyc.bearing,
+    2025,
+    { timezone: 'America/New_York' }
+  )
+  const summary = year.alignments.map(a => `${a.date} ${a.event} ${a.disk}`)
+
+  it('finds the Manhattanhenge sunsets and their winter sunrises over a flat horizon', () => {
+    expect(year.axis).toEqual({ bearing: 119, horizonAltitude: 0 })
+    expect(summary).toEqual([
+      '2025-01-10 sunrise half',
+      '2025-01-11 sunrise full',
+      '2025-05-25 sunset half',
+      '2025-05-26 sunset full',
+      '2025-07-15 sunset full',
+      '2025-07-16 sunset half',
+      '2025-11-30 sunrise full',
+      '2025-12-01 sunrise half'
+    ])
+  })
+
+  it('keeps whichever day comes closest to lining up', () => {
+    for (const alignment of year.alignments) {
+      expect(alignment.direction).toBe(alignment.event === 'sunrise' ? 119 : 299)
+      // Around these dates the rising and setting points move about 0.25° a day, so half a step at most
+      expect(Math.abs(alignment.azimuthOffset)).toBeLessThan(0.15)
+    }
+  })
+
+  it('sets the sun along the street at about a quarter past eight in the evening', () => {
+    const sunsets = year.alignments.filter(a => a.event === 'sunset')
+    const localTime = (time: Date) =>
+      time.toLocaleTimeString('en-US', { timeZone: 'America/New_York', hour: 'numeric', minute: '2-digit' })
+
+    expect(sunsets.map(a => localTime(a.time))).toEqual(['8:14 PM', '8:13 PM', '8:22 PM', '8:23 PM'])
+  })
+
+  it('moves the dates toward the solstice behind a raised skyline', () => {
+    const raised = streetAlignmentFinder.findAlignments(
+      TIMES_SQUARE.lat,
+      TIMES_SQUARE.lon,
+      STREET_GRID_PRESETS.nyc.bearing,
+      2025,
+      { timezone: 'America/New_York', horizonAltitude: 1 }
+    )
+    const firstSunset = (alignments: typeof year.alignments) => alignments.find(a => a.event === 'sunset')!.date
+
+    expect(firstSunset(raised.alignments) > firstSunset(year.alignments)).toBe(true)
+  })
+})
@@ -0,0 +1,171 @@
+import { sunCalculator } from './sun-calculator'
+import { solarPositionEngine } from './solar-position'
+import { alignmentFinder, type AlignmentPoint } from './alignment-finder'
+import { addDays, resolveTimeZone } from './timezone-utils'
+
+type StreetAlignmentEvent = 'sunrise' | 'sunset'
+
+// 'full': the whole disk sits just above the street's horizon, 'half': the horizon cuts the disk in two
+type SunDisk = 'full' | 'half'
+
+interface StreetAxis {
+  bearing: number // degrees from North, either direction along the street
+  horizonAltitude: number // degrees, apparent altitude of the skyline at the street's end
+}
+
+interface StreetAlignmentOptions {
+  horizonAltitude?: number // degrees, default 0 (flat, open horizon)
+  timezone?: string
+}
+
+interface StreetAlignment {
+  date: string // YYYY-MM-DD in the location's timezone
+  event: StreetAlignmentEvent
+  disk: SunDisk
+  time: Date
+  direction: number // street direction the sun is seen in, degrees from North
+  azimuth: number // sun azimuth at that moment, degrees from North
+  azimuthOffset: number // sun minus street direction in degrees
+}
+
+interface StreetAlignmentYear {
+  lat: number
+  lon: number
+  year: number
+  timezone: string
+  axis: StreetAxis
+  alignments: StreetAlignment[]
+}
+
+const SUN_RADIUS = 0.267 // degrees
+
+// Known street grids, keyed by LOCATION_DATABASE id
+const STREET_GRID_PRESETS: Record<string, { bearing: number; label: string }> = {
+  nyc: { bearing: 299, label: 'Manhattan street grid (cross streets)' }
+}
+
+class StreetAlignmentFinder {
+  /**
+   * Street axis from two points along it; elevations, when given, set the skyline altitude
+   * looking from the first point towards the second
+   */
+  getStreetAxis(from: AlignmentPoint, to: AlignmentPoint): StreetAxis {
+    const lineOfSight = alignmentFinder.getLineOfSight(from, to, 0)
+    return {
+      bearing: lineOfSight.azimuth,
+      horizonAltitude: from.elevation !== undefined && to.elevation !== undefined ? lineOfSight.altitude : 0
+    }
+  }
+
+  /**
+   * Every day of a year when the rising or setting sun lines up with a street, for both
+   * the full disk resting on the skyline and the disk half hidden by it
+   */
+  findAlignments(
+    lat: number,
+    lon: number,
+    bearing: number,
+    year: number,
+    options: StreetAlignmentOptions = {}
+  ): StreetAlignmentYear {
+    const timezone = resolveTimeZone(options.timezone)
+    const horizonAltitude = options.horizonAltitude ?? 0
+    // A street can be looked down either way: the sun rises in the eastern half and sets in the western half
+    const eastward = ((bearing % 180) + 180) % 180
+    const directions: Record<StreetAlignmentEvent, number> = { sunrise: eastward, sunset: eastward + 180 }
+    const alignments: StreetAlignment[] = []
+
+    for (const event of ['sunrise', 'sunset'] as StreetAlignmentEvent[]) {
+      for (const disk of ['full', 'half'] as SunDisk[]) {
+        const targetAltitude = horizonAltitude + (disk === 'full' ? SUN_RADIUS : 0)
+        const direction = directions[event]
+        let previous: StreetAlignment | null = null
+
+        for (let key = `${year}-01-01`; key.startsWith(String(year)); key = addDays(key, 1)) {
+          const crossing = this.findHorizonCrossing(key, lat, lon, event, targetAltitude, timezone)
+          if (!crossing) {
+            previous = null
+            continue
+          }
+
+          const current: StreetAlignment = {
+            date: key,
+            event,
+            disk,
+            time: crossing.time,
+            direction,
+            azimuth: crossing.azimuth,
+            azimuthOffset: ((crossing.azimuth - direction + 540) % 360) - 180
+          }
+
+          // The offset changes sign between two days: keep whichever day is closer
+          if (previous && Math.sign(previous.azimuthOffset) !== Math.sign(current.azimuthOffset) &&
+            Math.abs(previous.azimuthOffset - current.azimuthOffset) < 5) {
+            alignments.push(Math.abs(previous.azimuthOffset) <= Math.abs(current.azimuthOffset) ? previous : current)
+          }
+
+          previous = current
+        }
+      }
+    }
+
+    alignments.sort((a, b) => a.time.getTime() - b.time.getTime())
+
+    return {
+      lat,
+      lon,
+      year,
+      timezone,
+      axis: { bearing: eastward, horizonAltitude },
+      alignments
+    }
+  }
+
+  /**
+   * When the sun's center crosses an apparent altitude on the way up or down, with its azimuth then
+   */
+  private findHorizonCrossing(
+    date: string,
+    lat: number,
+    lon: number,
+    event: StreetAlignmentEvent,
+    targetAltitude: number,
+    timezone: string
+  ): { time: Date; azimuth: number } | null {
+    const sunTimes = sunCalculator.getSunTimes(date, lat, lon, { timezone })
+    const estimate = event === 'sunrise' ? sunTimes.sunrise : sunTimes.sunset
+    if (!estimate) return null
+
+    const apparentAltitude = (time: number) => {
+      const altitude = sunCalculator.getSunPosition(new Date(time), lat, lon).altitude
+      return altitude + solarPositionEngine.getRefraction(altitude)
+    }
+
+    // Newton's method from the standard sunrise/sunset, which is already within minutes
+    let time = estimate.getTime()
+    for (let i = 0; i < 8; i++) {
+      const error = apparentAltitude(time) - targetAltitude
+      const rate = (apparentAltitude(time + 60000) - apparentAltitude(time - 60000)) / 120000
+      if (Math.abs(rate) < 1e-9) return null
+
+      const step = error / rate
+      time -= Math.max(-3600000, Math.min(3600000, step))
+      if (Math.abs(step) < 1000) break
+    }
+
+    if (Math.abs(apparentAltitude(time) - targetAltitude) > 0.01) return null
+
+    return { time: new Date(time), azimuth: sunCalculator.getSunPosition(new Date(time), lat, lon).azimuth }
+  }
+}
+
+export const streetAlignmentFinder = new StreetAlignmentFinder()
+export { STREET_GRID_PRESETS }
+export type {
+  StreetAlignmentEvent,
+  SunDisk,
+  StreetAxis,
+  StreetAlignmentOptions,
+  StreetAlignment,
+  StreetAlignmentYear
+}
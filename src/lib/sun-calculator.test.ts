@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest'
+import { FixedClock } from './clock'
+import { SunCalculator } from './sun-calculator'
+import { buildHorizonProfile, type ElevationSampler } from './horizon-profile'
+
+const MINUTE = 60 * 1000
+
+const LONDON = { lat: 51.5074, lon: -0.1278, options: { timezone: 'Europe/London' } }
+const TROMSO = { lat: 69.6492, lon: 18.9553, options: { timezone: 'Europe/Oslo' } }
+const LONGYEARBYEN = { lat: 78.2232, lon: 15.6267, options: { timezone: 'Arctic/Longyearbyen' } }
+
+describe('SunCalculator.getNextGoldenHour', () => {
+  it('returns the evening window later today', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-06-01T12:00:00Z'))
+    const next = calculator.getNextGoldenHour('2025-06-01', LONDON.lat, LONDON.lon, LONDON.options)
+
+    expect(next).toMatchObject({ type: 'evening', isCurrent: false })
+    // The sun drops through 6° at about 20:15 BST
+    expect(Math.abs(next!.start.getTime() - Date.parse('2025-06-01T19:15:00Z'))).toBeLessThan(5 * MINUTE)
+    expect(next!.timeUntil).toBe(Math.ceil((next!.start.getTime() - Date.parse('2025-06-01T12:00:00Z')) / MINUTE))
+  })
+
+  it('reports a window in progress as current', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-06-01T19:45:00Z'))
+    const next = calculator.getNextGoldenHour('2025-06-01', LONDON.lat, LONDON.lon, LONDON.options)
+
+    expect(next).toMatchObject({ type: 'evening', isCurrent: true, timeUntil: 0 })
+  })
+
+  it('shows the first window of another day without a live status', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-06-01T12:00:00Z'))
+
+    expect(calculator.getNextGoldenHour('2025-06-10', LONDON.lat, LONDON.lon, LONDON.options))
+      .toMatchObject({ type: 'morning', isCurrent: false })
+    expect(calculator.getNextGoldenHour('2025-05-20', LONDON.lat, LONDON.lon, LONDON.options))
+      .toMatchObject({ type: 'morning', isCurrent: false, timeUntil: 0 })
+  })
+
+  it('finds the end of the polar night weeks ahead', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-12-01T12:00:00Z'))
+    const next = calculator.getNextGoldenHour('2025-12-01', LONGYEARBYEN.lat, LONGYEARBYEN.lon, LONGYEARBYEN.options)
+
+    // The noon sun first climbs back to -4° in early February
+    expect(next).toMatchObject({ type: 'morning', isCurrent: false })
+    expect(next!.start.getTime()).toBeGreaterThan(Date.parse('2026-02-01T00:00:00Z'))
+    expect(next!.start.getTime()).toBeLessThan(Date.parse('2026-02-12T00:00:00Z'))
+  })
+})
+
+describe('SunCalculator.findNextWindows', () => {
+  it('lists windows in order without overlaps', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-06-01T12:00:00Z'))
+    const windows = calculator.findNextWindows(LONDON.lat, LONDON.lon, { ...LONDON.options, count: 3 })
+
+    expect(windows.map(window => [window.localDate, window.type])).toEqual([
+      ['2025-06-01', 'evening'],
+      ['2025-06-02', 'morning'],
+      ['2025-06-02', 'evening']
+    ])
+    for (let i = 1; i < windows.length; i++) {
+      expect(windows[i].start.getTime()).toBeGreaterThanOrEqual(windows[i - 1].end.getTime())
+    }
+  })
+
+  it('reports a midnight-sun window once, under the evening it started', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-06-21T10:00:00Z'))
+    const windows = calculator.findNextWindows(TROMSO.lat, TROMSO.lon, { ...TROMSO.options, count: 2 })
+    const [first, second] = windows
+
+    // The sun stays above -4° all night, so the low-sun window runs straight through midnight
+    expect(first).toMatchObject({ type: 'evening', localDate: '2025-06-21', isCurrent: false })
+    expect(first.start.getTime()).toBeLessThan(Date.parse('2025-06-21T22:00:00Z'))
+    expect(first.end.getTime()).toBeGreaterThan(Date.parse('2025-06-21T22:00:00Z'))
+    expect(first.duration).toBeGreaterThan(4 * 60)
+    expect(second).toMatchObject({ type: 'evening', localDate: '2025-06-22' })
+  })
+
+  it('splits the noon glow of the polar night at solar noon', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-12-21T06:00:00Z'))
+    const [morning, evening] = calculator.findNextWindows(TROMSO.lat, TROMSO.lon, { ...TROMSO.options, count: 2 })
+    const { solarNoon } = calculator.getSunTimes('2025-12-21', TROMSO.lat, TROMSO.lon, TROMSO.options)
+
+    expect(morning).toMatchObject({ type: 'morning', localDate: '2025-12-21' })
+    expect(evening).toMatchObject({ type: 'evening', localDate: '2025-12-21' })
+    expect(morning.end).toEqual(solarNoon)
+    expect(evening.start).toEqual(solarNoon)
+  })
+
+  it('gives up after maxDays when the sun never reaches the band', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-12-01T12:00:00Z'))
+
+    expect(calculator.findNextWindows(LONGYEARBYEN.lat, LONGYEARBYEN.lon, { ...LONGYEARBYEN.options, maxDays: 30 }))
+      .toEqual([])
+  })
+
+  it('searches from the calculator clock unless given a start', () => {
+    const calculator = new SunCalculator(new FixedClock('2025-06-01T12:00:00Z'))
+    const from = new Date('2025-06-05T12:00:00Z')
+    const [next] = calculator.findNextWindows(LONDON.lat, LONDON.lon, { ...LONDON.options, count: 1, from })
+
+    expect(next.localDate).toBe('2025-06-05')
+    expect(next.timeUntil).toBe(Math.ceil((next.start.getTime() - from.getTime()) / MINUTE))
+  })
+})
+
+describe('SunCalculator.getRefractedSunTimes', () => {
+  const calculator = new SunCalculator()
+  const frosty = { temperature: -5, pressure: 1030 }
+  const hot = { temperature: 30, pressure: 1005 }
+
+  it('corrects each event with its own air', () => {
+    const times = calculator.getRefractedSunTimes('2025-06-01', LONDON.lat, LONDON.lon, { sunrise: frosty, sunset: hot }, LONDON.options)
+
+    // Dense air lifts the rising sun into view early, thin air drops the setting sun early
+    expect(times.shift.sunrise).toBeLessThan(0)
+    expect(times.shift.sunset).toBeLessThan(0)
+    expect(times.corrected.sunrise)
+      .toEqual(calculator.getRefractedSunTimes('2025-06-01', LONDON.lat, LONDON.lon, frosty, LONDON.options).corrected.sunrise)
+    expect(times.corrected.sunset)
+      .toEqual(calculator.getRefractedSunTimes('2025-06-01', LONDON.lat, LONDON.lon, hot, LONDON.options).corrected.sunset)
+  })
+
+  it('uses one set of conditions for both events when that is all there is', () => {
+    const times = calculator.getRefractedSunTimes('2025-06-01', LONDON.lat, LONDON.lon, frosty, LONDON.options)
+
+    expect(times.atmosphere).toEqual({ sunrise: frosty, sunset: frosty })
+    expect(times.horizonAltitude.corrected.sunrise).toBe(times.horizonAltitude.corrected.sunset)
+  })
+})
+
+describe('SunCalculator.getApparentSunTimes', () => {
+  const calculator = new SunCalculator()
+  // A 500 m high north-south wall 5-6 km east of London, flat sea-level ground everywhere else
+  const ridge: ElevationSampler = {
+    getElevation(lat, lon) {
+      const east = (lon - LONDON.lon) * 111320 * Math.cos(LONDON.lat * Math.PI / 180)
+      return east >= 5000 && east <= 6000 ? 500 : 0
+    }
+  }
+  const profile = buildHorizonProfile(ridge, LONDON.lat, LONDON.lon)
+
+  it('delays sunrise behind a ridge and leaves the open western horizon alone', () => {
+    // Near the equinox the sun rises due east, straight behind the ~5.6° ridge
+    const astronomical = calculator.getSunTimes('2025-03-20', LONDON.lat, LONDON.lon, LONDON.options)
+    const apparent = calculator.getApparentSunTimes('2025-03-20', LONDON.lat, LONDON.lon, profile, LONDON.options)
+    const delay = (apparent.sunrise!.getTime() - astronomical.sunrise!.getTime()) / MINUTE
+
+    expect(delay).toBeGreaterThan(25)
+    expect(delay).toBeLessThan(45)
+    expect(Math.abs(apparent.sunset!.getTime() - astronomical.sunset!.getTime())).toBeLessThan(2 * MINUTE)
+  })
+
+  it('trims the morning golden hour to start once the sun clears the ridge', () => {
+    const apparent = calculator.getApparentSunTimes('2025-03-20', LONDON.lat, LONDON.lon, profile, LONDON.options)
+
+    expect(apparent.goldenHours.morning!.start).toEqual(apparent.sunrise)
+  })
+})
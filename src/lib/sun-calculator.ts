@@ -1,36 +1,61 @@
-import SunCalc from 'suncalc'
+import * as SunCalc from 'suncalc'
+import { getHorizonAltitude, type HorizonProfile } from './horizon-profile'
+import { moonCalculator, type MoonInfo } from './moon-calculator'
+import { eclipseCalculator, type LocalEclipse } from './eclipse-calculator'
+import { solarPositionEngine } from './solar-position'
+import { systemClock, type Clock } from './clock'
+import { refineCrossing } from './crossing-search'
+import { addDays, getZonedDateKey, getZonedDay, resolveTimeZone, type DayInput, type ZonedDay } from './timezone-utils'
 
+// Events the sun never reaches on a given day (polar regions) are null
 interface SunTimes {
   solarNoon: Date
-  sunrise: Date
-  sunset: Date
-  sunriseEnd: Date
-  sunsetStart: Date
-  dawn: Date
-  dusk: Date
-  nauticalDawn: Date
-  nauticalDusk: Date
-  nightEnd: Date
-  night: Date
-  goldenHourEnd: Date
-  goldenHourStart: Date
+  nadir: Date
+  sunrise: Date | null
+  sunset: Date | null
+  sunriseEnd: Date | null
+  sunsetStart: Date | null
+  dawn: Date | null
+  dusk: Date | null
+  nauticalDawn: Date | null
+  nauticalDusk: Date | null
+  nightEnd: Date | null
+  night: Date | null
+  goldenHourEnd: Date | null
+  goldenHourStart: Date | null
 }
 
+type DayState = 'normal' | 'midnight-sun' | 'polar-night' | 'civil-twilight-only'
+
 interface SunPosition {
   azimuth: number // degrees from North (0-360)
-  altitude: number // degrees above horizon (-90 to 90)
+  altitude: number // degrees above horizon (-90 to 90), without refraction
   distance: number // distance to sun in km
-  declination: number // solar declination in degrees
-  rightAscension: number // right ascension in degrees
-  hourAngle: number // hour angle in degrees
+  declination: number // topocentric declination in degrees
+  rightAscension: number // topocentric right ascension in degrees
+  hourAngle: number // local hour angle in degrees (-180 to 180, negative before noon)
+  equationOfTime: number // minutes, apparent minus mean solar time
+}
+
+interface AltitudeBand {
+  min: number // solar altitude in degrees
+  max: number // solar altitude in degrees
+}
+
+interface LightBands {
+  golden: AltitudeBand
+  blue: AltitudeBand
 }
 
+type LightBandPreset = 'standard' | 'classic' | 'extended'
+
 interface GoldenHourPeriod {
   start: Date
   end: Date
   duration: number // in minutes
   quality: 'excellent' | 'good' | 'fair' | 'poor'
   intensity: number // 0-100
+  band: AltitudeBand
 }
 
 interface BlueHourPeriod {
@@ -39,183 +64,505 @@ interface BlueHourPeriod {
   duration: number // in minutes
   quality: 'excellent' | 'good' | 'fair' | 'poor'
   intensity: number // 0-100
+  band: AltitudeBand
+}
+
+type TwilightPhaseName =
+  | 'night'
+  | 'astronomical-twilight'
+  | 'nautical-twilight'
+  | 'civil-twilight'
+  | 'blue-hour'
+  | 'golden-hour'
+  | 'daylight'
+  | 'solar-noon'
+
+interface TwilightPhase {
+  phase: TwilightPhaseName
+  label: string // e.g. 'Morning blue hour'
+  start: Date
+  end: Date // equal to start for the solar noon instant
+  duration: number // in minutes
+  startAltitude: number // sun altitude above the observer's horizon at `start`, degrees
+  endAltitude: number // sun altitude above the observer's horizon at `end`, degrees
+}
+
+// Consecutive phases covering local midnight to local midnight without gaps
+interface TwilightTimeline {
+  date: Date // local midnight in `timezone`
+  localDate: string
+  timezone: string
+  dayState: DayState
+  lightBands: LightBands
+  solarNoon: Date
+  phases: TwilightPhase[]
+}
+
+type LightWindowKind = 'golden' | 'blue' | 'custom'
+
+interface LightWindowSearchOptions extends SunCalculationOptions {
+  band?: 'golden' | 'blue' | AltitudeBand // default golden, using the configured light bands
+  count?: number // windows to return, default 5
+  from?: Date // default the calculator's clock
+  maxDays?: number // days to scan before giving up, default 366
+}
+
+interface LightWindow {
+  kind: LightWindowKind
+  type: 'morning' | 'evening'
+  localDate: string // YYYY-MM-DD of the day the window belongs to
+  start: Date
+  end: Date
+  duration: number // in minutes
+  band: AltitudeBand
+  isCurrent: boolean // `from` falls inside the window
+  timeUntil: number // minutes from `from` until start, 0 while in progress
+}
+
+interface ApparentSunTimes {
+  sunrise: Date | null // sun's upper limb clears the terrain
+  sunset: Date | null // sun's upper limb drops behind the terrain
+  goldenHours: {
+    morning: GoldenHourPeriod | null
+    evening: GoldenHourPeriod | null
+  }
+  daylightDuration: number // in minutes
+}
+
+interface AtmosphericConditions {
+  temperature: number // °C at the observer
+  pressure: number // hPa
+}
+
+// The air at sunrise and at sunset, which can differ by many degrees and hectopascals
+interface EventAtmospheres {
+  sunrise: AtmosphericConditions
+  sunset: AtmosphericConditions
+}
+
+interface RefractedSunTimes {
+  atmosphere: EventAtmospheres
+  horizonAltitude: {
+    standard: number // geometric sun altitude at sunrise/sunset, degrees
+    corrected: {
+      sunrise: number
+      sunset: number
+    }
+  }
+  standard: {
+    sunrise: Date | null
+    sunset: Date | null
+  }
+  corrected: {
+    sunrise: Date | null
+    sunset: Date | null
+  }
+  shift: {
+    sunrise: number | null // seconds, negative when the corrected event comes earlier
+    sunset: number | null
+  }
+}
+
+interface SunCalculationOptions {
+  horizonProfile?: HorizonProfile
+  observerHeight?: number // meters above the surrounding horizon (rooftop, summit, drone)
+  bands?: LightBandPreset | Partial<LightBands>
+  timezone?: string // IANA zone that defines "the day", e.g. LocationEntry.timezone; defaults to the host zone
 }
 
 interface DayInfo {
-  date: Date
+  date: Date // local midnight in `timezone`
+  localDate: string // YYYY-MM-DD in `timezone`
+  timezone: string
+  dayState: DayState
   daylightDuration: number // in minutes
   sunTimes: SunTimes
+  lightBands: LightBands
   goldenHours: {
-    morning: GoldenHourPeriod
-    evening: GoldenHourPeriod
+    morning: GoldenHourPeriod | null
+    evening: GoldenHourPeriod | null
   }
   blueHours: {
-    morning: BlueHourPeriod
-    evening: BlueHourPeriod
+    morning: BlueHourPeriod | null
+    evening: BlueHourPeriod | null
   }
   sunPath: SunPosition[]
+  moon: MoonInfo
+  eclipses: LocalEclipse[] // solar and lunar eclipses in progress at some point of the local day
   optimalShootingTimes: {
     goldenHour: Date[]
     blueHour: Date[]
     civilTwilight: Date[]
   }
+  apparent?: ApparentSunTimes
+}
+
+const LIGHT_BAND_PRESETS: Record<LightBandPreset, LightBands & { label: string; description: string }> = {
+  standard: {
+    label: 'Standard',
+    description: 'Golden hour from -4° to 6°, blue hour from -6° to -4°',
+    golden: { min: -4, max: 6 },
+    blue: { min: -6, max: -4 }
+  },
+  classic: {
+    label: 'Classic',
+    description: 'Golden hour from sunrise/sunset to 6°, blue hour across civil twilight',
+    golden: { min: -0.833, max: 6 },
+    blue: { min: -6, max: -0.833 }
+  },
+  extended: {
+    label: 'Extended',
+    description: 'Wider windows for long, soft light: golden hour to 10°, blue hour from -8°',
+    golden: { min: -4, max: 10 },
+    blue: { min: -8, max: -4 }
+  }
+}
+
+const TWILIGHT_PHASE_LABELS: Record<TwilightPhaseName, string> = {
+  'night': 'Night',
+  'astronomical-twilight': 'astronomical twilight',
+  'nautical-twilight': 'nautical twilight',
+  'civil-twilight': 'civil twilight',
+  'blue-hour': 'blue hour',
+  'golden-hour': 'golden hour',
+  'daylight': 'Daylight',
+  'solar-noon': 'Solar noon'
 }
 
 class SunCalculator {
   private readonly EARTH_RADIUS = 6371 // km
-  private readonly SUN_DISTANCE = 149597870.7 // km (average)
+  private readonly ASTRONOMICAL_UNIT = 149597870.7 // km
+  private readonly SUNRISE_ALTITUDE = -0.833 // degrees, refraction plus solar semidiameter
+
+  constructor(private readonly clock: Clock = systemClock) {}
 
   /**
-   * Get precise sun times for a given date and location
+   * Current time according to the injected clock
    */
-  getSunTimes(date: Date, lat: number, lon: number): SunTimes {
-    return SunCalc.getTimes(date, lat, lon)
+  now(): Date {
+    return this.clock.now()
   }
 
   /**
-   * Get sun position with enhanced precision
+   * Get precise sun times for a given date and location.
+   * An observer height lowers the visible horizon, so the sun rises earlier and sets later.
    */
-  getSunPosition(date: Date, lat: number, lon: number): SunPosition {
-    const position = SunCalc.getPosition(date, lat, lon)
-    
-    // Convert radians to degrees
-    const azimuth = (position.azimuth * 180 / Math.PI + 180) % 360
-    const altitude = position.altitude * 180 / Math.PI
-    
-    // Calculate additional astronomical parameters
-    const declination = this.calculateSolarDeclination(date)
-    const rightAscension = this.calculateRightAscension(date)
-    const hourAngle = this.calculateHourAngle(date, lon)
-    
+  getSunTimes(date: DayInput, lat: number, lon: number, options: SunCalculationOptions = {}): SunTimes {
+    // SunCalc picks the solar day closest to the instant it is given, so anchor it on local noon
+    const day = this.resolveDay(date, options)
+    const times = SunCalc.getTimes(day.noon, lat, lon, this.normalizeObserverHeight(options.observerHeight))
+
+    // SunCalc reports events that don't happen (midnight sun, polar night) as null
+    const valid = (time: Date | null | undefined): Date | null =>
+      time instanceof Date && !isNaN(time.getTime()) ? time : null
+
     return {
-      azimuth,
-      altitude,
-      distance: this.SUN_DISTANCE,
-      declination,
-      rightAscension,
-      hourAngle
+      solarNoon: times.solarNoon,
+      nadir: times.nadir,
+      sunrise: valid(times.sunrise),
+      sunset: valid(times.sunset),
+      sunriseEnd: valid(times.sunriseEnd),
+      sunsetStart: valid(times.sunsetStart),
+      dawn: valid(times.dawn),
+      dusk: valid(times.dusk),
+      nauticalDawn: valid(times.nauticalDawn),
+      nauticalDusk: valid(times.nauticalDusk),
+      nightEnd: valid(times.nightEnd),
+      night: valid(times.night),
+      goldenHourEnd: valid(times.goldenHourEnd),
+      goldenHourStart: valid(times.goldenHour)
     }
   }
 
   /**
-   * Calculate solar declination
+   * Classify the day by the sun's highest and lowest altitude
    */
-  private calculateSolarDeclination(date: Date): number {
-    const dayOfYear = this.getDayOfYear(date)
-    const declination = 23.45 * Math.sin(Math.PI * (284 + dayOfYear) / 365)
-    return declination
+  getDayState(date: DayInput, lat: number, lon: number, options: SunCalculationOptions = {}): DayState {
+    const sunTimes = this.getSunTimes(date, lat, lon, options)
+    const horizon = this.SUNRISE_ALTITUDE + this.getHorizonDip(options.observerHeight)
+    const highest = this.getSunPosition(sunTimes.solarNoon, lat, lon).altitude
+    const lowest = this.getSunPosition(sunTimes.nadir, lat, lon).altitude
+
+    if (lowest > horizon) return 'midnight-sun'
+    if (highest < -6) return 'polar-night'
+    if (highest < horizon) return 'civil-twilight-only'
+    return 'normal'
   }
 
   /**
-   * Calculate right ascension
+   * Horizon dip in degrees for an observer above the surrounding terrain (always <= 0)
    */
-  private calculateRightAscension(date: Date): number {
-    const dayOfYear = this.getDayOfYear(date)
-    const rightAscension = (280.46 + 0.9856474 * dayOfYear) % 360
-    return rightAscension
+  getHorizonDip(observerHeight?: number): number {
+    // Same dip model SunCalc applies to its rise/set times
+    return -2.076 * Math.sqrt(this.normalizeObserverHeight(observerHeight)) / 60
   }
 
   /**
-   * Calculate hour angle
+   * The calendar day a request refers to, in the location's timezone
    */
-  private calculateHourAngle(date: Date, longitude: number): number {
-    const utcHours = date.getUTCHours() + date.getUTCMinutes() / 60
-    const hourAngle = 15 * (utcHours - 12) - longitude
-    return hourAngle % 360
+  resolveDay(date: DayInput, options: SunCalculationOptions = {}): ZonedDay {
+    return getZonedDay(date, resolveTimeZone(options.timezone))
+  }
+
+  private normalizeObserverHeight(observerHeight?: number): number {
+    if (typeof observerHeight !== 'number' || isNaN(observerHeight)) return 0
+    return Math.max(0, observerHeight)
+  }
+
+  /**
+   * Get sun position from the NREL SPA engine, with ΔT estimated for the date
+   */
+  getSunPosition(date: Date, lat: number, lon: number): SunPosition {
+    const position = solarPositionEngine.calculate(date, lat, lon)
+
+    return {
+      azimuth: position.azimuth,
+      // Geometric altitude: horizon thresholds below already account for refraction
+      altitude: position.geometricElevation,
+      distance: position.distance * this.ASTRONOMICAL_UNIT,
+      declination: position.declination,
+      rightAscension: position.rightAscension,
+      hourAngle: position.hourAngle,
+      equationOfTime: position.equationOfTime
+    }
   }
 
   /**
-   * Get day of year (1-366)
+   * Resolve a preset name or custom bands into concrete altitude ranges
    */
-  private getDayOfYear(date: Date): number {
-    const start = new Date(date.getFullYear(), 0, 0)
-    const diff = date.getTime() - start.getTime()
-    return Math.floor(diff / (1000 * 60 * 60 * 24))
+  resolveLightBands(bands: SunCalculationOptions['bands'] = 'standard'): LightBands {
+    if (typeof bands === 'string') {
+      const preset = LIGHT_BAND_PRESETS[bands]
+      if (!preset) {
+        throw new Error(`Unknown light band preset: ${bands}`)
+      }
+      return { golden: preset.golden, blue: preset.blue }
+    }
+
+    const resolved = {
+      golden: bands.golden ?? LIGHT_BAND_PRESETS.standard.golden,
+      blue: bands.blue ?? LIGHT_BAND_PRESETS.standard.blue
+    }
+
+    for (const band of [resolved.golden, resolved.blue]) {
+      if (isNaN(band.min) || isNaN(band.max) || band.min >= band.max || band.min < -90 || band.max > 90) {
+        throw new Error(`Invalid altitude band: ${band.min}° to ${band.max}°`)
+      }
+    }
+
+    return resolved
   }
 
   /**
-   * Calculate golden hour periods with enhanced precision
+   * Calculate golden hour periods as the time the sun spends inside the golden altitude band
    */
-  getGoldenHourPeriods(date: Date, lat: number, lon: number): {
-    morning: GoldenHourPeriod
-    evening: GoldenHourPeriod
+  getGoldenHourPeriods(date: DayInput, lat: number, lon: number, options: SunCalculationOptions = {}): {
+    morning: GoldenHourPeriod | null
+    evening: GoldenHourPeriod | null
   } {
-    const sunTimes = this.getSunTimes(date, lat, lon)
-    
-    // Morning golden hour (sunrise to sunrise + 60 minutes)
-    const morningStart = new Date(sunTimes.sunrise.getTime() + 15 * 60 * 1000) // 15 minutes after sunrise
-    const morningEnd = new Date(sunTimes.sunrise.getTime() + 60 * 60 * 1000) // 60 minutes after sunrise
-    
-    // Evening golden hour (sunset - 60 minutes to sunset - 15 minutes)
-    const eveningStart = new Date(sunTimes.sunset.getTime() - 60 * 60 * 1000) // 60 minutes before sunset
-    const eveningEnd = new Date(sunTimes.sunset.getTime() - 15 * 60 * 1000) // 15 minutes before sunset
-    
-    return {
-      morning: {
-        start: morningStart,
-        end: morningEnd,
-        duration: 45, // minutes
-        quality: this.calculateGoldenHourQuality(morningStart, morningEnd, lat, lon),
-        intensity: this.calculateGoldenHourIntensity(morningStart, lat, lon)
-      },
-      evening: {
-        start: eveningStart,
-        end: eveningEnd,
-        duration: 45, // minutes
-        quality: this.calculateGoldenHourQuality(eveningStart, eveningEnd, lat, lon),
-        intensity: this.calculateGoldenHourIntensity(eveningStart, lat, lon)
+    const { golden } = this.resolveLightBands(options.bands)
+    const { morning, evening } = this.findAltitudeBandPeriods(date, lat, lon, golden, options)
+
+    const toPeriod = (period: { start: Date; end: Date } | null): GoldenHourPeriod | null => {
+      if (!period) return null
+      const midTime = new Date((period.start.getTime() + period.end.getTime()) / 2)
+      return {
+        start: period.start,
+        end: period.end,
+        duration: Math.round((period.end.getTime() - period.start.getTime()) / (1000 * 60)),
+        quality: this.calculateGoldenHourQuality(period.start, period.end, lat, lon),
+        intensity: this.calculateGoldenHourIntensity(midTime, lat, lon),
+        band: golden
       }
     }
+
+    return {
+      morning: toPeriod(morning),
+      evening: toPeriod(evening)
+    }
   }
 
   /**
-   * Calculate blue hour periods
+   * Calculate blue hour periods as the time the sun spends inside the blue altitude band
    */
-  getBlueHourPeriods(date: Date, lat: number, lon: number): {
-    morning: BlueHourPeriod
-    evening: BlueHourPeriod
+  getBlueHourPeriods(date: DayInput, lat: number, lon: number, options: SunCalculationOptions = {}): {
+    morning: BlueHourPeriod | null
+    evening: BlueHourPeriod | null
   } {
-    const sunTimes = this.getSunTimes(date, lat, lon)
-    
-    // Morning blue hour (dawn to sunrise)
-    const morningStart = sunTimes.dawn
-    const morningEnd = sunTimes.sunrise
-    
-    // Evening blue hour (sunset to dusk)
-    const eveningStart = sunTimes.sunset
-    const eveningEnd = sunTimes.dusk
-    
+    const { blue } = this.resolveLightBands(options.bands)
+    const { morning, evening } = this.findAltitudeBandPeriods(date, lat, lon, blue, options)
+
+    const toPeriod = (period: { start: Date; end: Date } | null): BlueHourPeriod | null => {
+      if (!period) return null
+      const midTime = new Date((period.start.getTime() + period.end.getTime()) / 2)
+      return {
+        start: period.start,
+        end: period.end,
+        duration: Math.round((period.end.getTime() - period.start.getTime()) / (1000 * 60)),
+        quality: this.calculateBlueHourQuality(period.start, period.end, lat, lon),
+        intensity: this.calculateBlueHourIntensity(midTime, lat, lon),
+        band: blue
+      }
+    }
+
     return {
-      morning: {
-        start: morningStart,
-        end: morningEnd,
-        duration: Math.round((morningEnd.getTime() - morningStart.getTime()) / (1000 * 60)),
-        quality: this.calculateBlueHourQuality(morningStart, morningEnd, lat, lon),
-        intensity: this.calculateBlueHourIntensity(morningStart, lat, lon)
-      },
-      evening: {
-        start: eveningStart,
-        end: eveningEnd,
-        duration: Math.round((eveningEnd.getTime() - eveningStart.getTime()) / (1000 * 60)),
-        quality: this.calculateBlueHourQuality(eveningStart, eveningEnd, lat, lon),
-        intensity: this.calculateBlueHourIntensity(eveningStart, lat, lon)
+      morning: toPeriod(morning),
+      evening: toPeriod(evening)
+    }
+  }
+
+  /**
+   * Find when the sun is inside an altitude band before and after solar noon.
+   * Altitudes are measured against the observer's horizon, so an elevated observer sees the
+   * sun higher than the geometric altitude. When the band contains the noon altitude (high
+   * latitudes in winter) the single low-sun stretch is split at solar noon. Periods that are
+   * still in progress at solar midnight (midnight sun) are followed into the neighbouring day,
+   * so the same continuous window is the evening of one day and the morning of the next.
+   */
+  findAltitudeBandPeriods(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    band: AltitudeBand,
+    options: SunCalculationOptions = {}
+  ): {
+    morning: { start: Date; end: Date } | null
+    evening: { start: Date; end: Date } | null
+  } {
+    return this.findAltitudeBandsPeriods(date, lat, lon, [band], options)[0]
+  }
+
+  /**
+   * findAltitudeBandPeriods for several bands on the same day. The sun's altitude is sampled
+   * once and shared, so golden and blue hour together cost little more than either alone.
+   */
+  findAltitudeBandsPeriods(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    bands: AltitudeBand[],
+    options: SunCalculationOptions = {}
+  ): {
+    morning: { start: Date; end: Date } | null
+    evening: { start: Date; end: Date } | null
+  }[] {
+    const solarNoon = this.getSunTimes(date, lat, lon, options).solarNoon.getTime()
+    const dip = this.getHorizonDip(options.observerHeight)
+    const halfDayMs = 12 * 60 * 60 * 1000
+
+    const altitudes = new Map<number, number>()
+    const altitude = (time: number): number => {
+      let value = altitudes.get(time)
+      if (value === undefined) {
+        value = this.getSunPosition(new Date(time), lat, lon).altitude - dip
+        altitudes.set(time, value)
       }
+      return value
     }
+
+    const toPeriod = (start: number, end: number) => end > start
+      ? { start: new Date(start), end: new Date(end) }
+      : null
+
+    return bands.map(band => {
+      const segments = this.findBandSegments(altitude, band, solarNoon - halfDayMs, solarNoon + halfDayMs)
+      const first = segments[0]
+      const last = segments[segments.length - 1]
+
+      // Follow periods that are open at solar midnight into the previous/next day
+      if (first && first.start === solarNoon - halfDayMs) {
+        const earlier = this.findBandSegments(altitude, band, solarNoon - 2 * halfDayMs, first.start)
+        const joined = earlier[earlier.length - 1]
+        if (joined && joined.end === first.start) first.start = joined.start
+      }
+      if (last && last.end === solarNoon + halfDayMs) {
+        const later = this.findBandSegments(altitude, band, last.end, solarNoon + 2 * halfDayMs)
+        const joined = later[0]
+        if (joined && joined.start === last.end) last.end = joined.end
+      }
+
+      const morningSegment = segments.filter(segment => segment.start < solarNoon).pop()
+      const eveningSegment = segments.find(segment => segment.end > solarNoon)
+
+      return {
+        morning: morningSegment ? toPeriod(morningSegment.start, Math.min(morningSegment.end, solarNoon)) : null,
+        evening: eveningSegment ? toPeriod(Math.max(eveningSegment.start, solarNoon), eveningSegment.end) : null
+      }
+    })
   }
 
   /**
-   * Calculate golden hour quality based on sun angle and atmospheric conditions
+   * Scan for stretches where `altitude` is inside the band, refining each edge where it crosses
+   * the band's bounds. Crossings are found per bound, so a band the sun passes through within
+   * one step is still caught; only a graze of a bound by under ~0.02° can slip between samples.
+   * Segments still open at either end of the range are clipped to it.
+   */
+  private findBandSegments(
+    altitude: (time: number) => number,
+    band: AltitudeBand,
+    rangeStart: number,
+    rangeEnd: number,
+    stepMs = 10 * 60 * 1000
+  ): { start: number; end: number }[] {
+    const segments: { start: number; end: number }[] = []
+    const isInside = (value: number) => value > band.min && !(value > band.max)
+    let previousTime = rangeStart
+    let previousValue = altitude(previousTime)
+    let segmentStart: number | null = isInside(previousValue) ? rangeStart : null
+
+    while (previousTime < rangeEnd) {
+      const time = Math.min(previousTime + stepMs, rangeEnd)
+      const value = altitude(time)
+
+      // Edges crossed during this step, in time order
+      const crossings = [band.min, band.max]
+        .filter(bound => (previousValue > bound) !== (value > bound))
+        .map(bound => refineCrossing(t => altitude(t) - bound, previousTime, time).getTime())
+        .sort((a, b) => a - b)
+
+      let inside = isInside(previousValue)
+      for (const crossing of crossings) {
+        if (inside && segmentStart !== null) {
+          segments.push({ start: segmentStart, end: crossing })
+          segmentStart = null
+        } else if (!inside) {
+          segmentStart = crossing
+        }
+        inside = !inside
+      }
+
+      previousTime = time
+      previousValue = value
+    }
+
+    if (segmentStart !== null) {
+      segments.push({ start: segmentStart, end: rangeEnd })
+    }
+
+    return segments
+  }
+
+  /**
+   * Calculate golden hour quality from how slowly the sun moves through the band
    */
   private calculateGoldenHourQuality(start: Date, end: Date, lat: number, lon: number): 'excellent' | 'good' | 'fair' | 'poor' {
-    const midTime = new Date((start.getTime() + end.getTime()) / 2)
-    const position = this.getSunPosition(midTime, lat, lon)
-    
-    // Optimal golden hour occurs when sun is between 4-6 degrees above horizon
-    const optimalAngle = position.altitude
-    
-    if (optimalAngle >= 4 && optimalAngle <= 6) return 'excellent'
-    if (optimalAngle >= 3 && optimalAngle <= 8) return 'good'
-    if (optimalAngle >= 2 && optimalAngle <= 10) return 'fair'
+    return this.calculateBandQuality(start, end, lat, lon)
+  }
+
+  /**
+   * Rate a low-sun period by minutes spent per degree of altitude change.
+   * A slow, shallow sun gives longer and softer light than a steep one near the equator.
+   */
+  private calculateBandQuality(start: Date, end: Date, lat: number, lon: number): 'excellent' | 'good' | 'fair' | 'poor' {
+    const duration = (end.getTime() - start.getTime()) / (1000 * 60)
+    const altitudeChange = Math.abs(
+      this.getSunPosition(end, lat, lon).altitude - this.getSunPosition(start, lat, lon).altitude
+    )
+    const minutesPerDegree = duration / Math.max(altitudeChange, 0.1)
+
+    if (minutesPerDegree >= 9) return 'excellent'
+    if (minutesPerDegree >= 6) return 'good'
+    if (minutesPerDegree >= 4) return 'fair'
     return 'poor'
   }
 
@@ -235,19 +582,10 @@ class SunCalculator {
   }
 
   /**
-   * Calculate blue hour quality
+   * Calculate blue hour quality from how slowly the sun moves through the band
    */
   private calculateBlueHourQuality(start: Date, end: Date, lat: number, lon: number): 'excellent' | 'good' | 'fair' | 'poor' {
-    const midTime = new Date((start.getTime() + end.getTime()) / 2)
-    const position = this.getSunPosition(midTime, lat, lon)
-    
-    // Optimal blue hour occurs when sun is between -6 to -4 degrees below horizon
-    const optimalAngle = position.altitude
-    
-    if (optimalAngle >= -6 && optimalAngle <= -4) return 'excellent'
-    if (optimalAngle >= -8 && optimalAngle <= -2) return 'good'
-    if (optimalAngle >= -12 && optimalAngle <= 0) return 'fair'
-    return 'poor'
+    return this.calculateBandQuality(start, end, lat, lon)
   }
 
   /**
@@ -268,25 +606,21 @@ class SunCalculator {
   /**
    * Generate sun path for the entire day
    */
-  getSunPath(date: Date, lat: number, lon: number): SunPosition[] {
+  getSunPath(date: DayInput, lat: number, lon: number, options: SunCalculationOptions = {}): SunPosition[] {
     const path: SunPosition[] = []
+    const day = this.resolveDay(date, options)
+    const sunTimes = this.getSunTimes(day.key, lat, lon, options)
     
-    // Calculate sun position every 15 minutes
-    for (let hour = 0; hour < 24; hour++) {
-      for (let minute = 0; minute < 60; minute += 15) {
-        const time = new Date(date)
-        time.setHours(hour, minute, 0, 0)
-        
-        const position = this.getSunPosition(time, lat, lon)
-        
-        // Only include positions where sun is above horizon or within 1 hour of sunrise/sunset
-        const sunTimes = this.getSunTimes(date, lat, lon)
-        const timeFromSunrise = Math.abs(time.getTime() - sunTimes.sunrise.getTime())
-        const timeFromSunset = Math.abs(time.getTime() - sunTimes.sunset.getTime())
-        
-        if (position.altitude > -10 || timeFromSunrise < 60 * 60 * 1000 || timeFromSunset < 60 * 60 * 1000) {
-          path.push(position)
-        }
+    // Calculate sun position every 15 minutes from local midnight to local midnight
+    for (let time = day.start.getTime(); time < day.end.getTime(); time += 15 * 60 * 1000) {
+      const position = this.getSunPosition(new Date(time), lat, lon)
+      
+      // Only include positions where sun is above horizon or within 1 hour of sunrise/sunset
+      const timeFromSunrise = sunTimes.sunrise ? Math.abs(time - sunTimes.sunrise.getTime()) : Infinity
+      const timeFromSunset = sunTimes.sunset ? Math.abs(time - sunTimes.sunset.getTime()) : Infinity
+      
+      if (position.altitude > -10 || timeFromSunrise < 60 * 60 * 1000 || timeFromSunset < 60 * 60 * 1000) {
+        path.push(position)
       }
     }
     
@@ -296,134 +630,399 @@ class SunCalculator {
   /**
    * Get comprehensive day information
    */
-  getDayInfo(date: Date, lat: number, lon: number): DayInfo {
-    const sunTimes = this.getSunTimes(date, lat, lon)
-    const goldenHours = this.getGoldenHourPeriods(date, lat, lon)
-    const blueHours = this.getBlueHourPeriods(date, lat, lon)
-    const sunPath = this.getSunPath(date, lat, lon)
+  getDayInfo(date: DayInput, lat: number, lon: number, options: SunCalculationOptions = {}): DayInfo {
+    const day = this.resolveDay(date, options)
+    const sunTimes = this.getSunTimes(date, lat, lon, options)
+    const goldenHours = this.getGoldenHourPeriods(date, lat, lon, options)
+    const blueHours = this.getBlueHourPeriods(date, lat, lon, options)
+    const sunPath = this.getSunPath(date, lat, lon, options)
+    
+    const dayState = this.getDayState(date, lat, lon, options)
     
     // Calculate daylight duration
-    const daylightDuration = (sunTimes.sunset.getTime() - sunTimes.sunrise.getTime()) / (1000 * 60)
+    let daylightDuration = 0
+    if (dayState === 'midnight-sun') {
+      daylightDuration = 24 * 60
+    } else if (sunTimes.sunrise && sunTimes.sunset) {
+      daylightDuration = (sunTimes.sunset.getTime() - sunTimes.sunrise.getTime()) / (1000 * 60)
+    }
     
     // Generate optimal shooting times
     const optimalShootingTimes = {
-      goldenHour: [
-        goldenHours.morning.start,
-        goldenHours.morning.end,
-        goldenHours.evening.start,
-        goldenHours.evening.end
-      ],
-      blueHour: [
-        blueHours.morning.start,
-        blueHours.morning.end,
-        blueHours.evening.start,
-        blueHours.evening.end
-      ],
-      civilTwilight: [
-        sunTimes.dawn,
-        sunTimes.dusk
-      ]
+      goldenHour: [goldenHours.morning, goldenHours.evening]
+        .flatMap(period => period ? [period.start, period.end] : []),
+      blueHour: [blueHours.morning, blueHours.evening]
+        .flatMap(period => period ? [period.start, period.end] : []),
+      civilTwilight: [sunTimes.dawn, sunTimes.dusk]
+        .filter((time): time is Date => time !== null)
     }
     
     return {
-      date,
+      date: day.start,
+      localDate: day.key,
+      timezone: day.timezone,
+      dayState,
       daylightDuration,
       sunTimes,
+      lightBands: this.resolveLightBands(options.bands),
       goldenHours,
       blueHours,
       sunPath,
-      optimalShootingTimes
+      moon: moonCalculator.getMoonInfo(date, lat, lon, day.timezone),
+      eclipses: eclipseCalculator.getEclipsesBetween(day.start, day.end, lat, lon),
+      optimalShootingTimes,
+      ...(options.horizonProfile && {
+        apparent: this.getApparentSunTimes(date, lat, lon, options.horizonProfile, options)
+      })
     }
   }
 
   /**
-   * Get next golden hour with precise timing
+   * Split the local day into consecutive light phases, from night through twilight, blue hour,
+   * golden hour and daylight, with solar noon as an instant between the morning and evening halves.
+   * Blue and golden hour follow the configured bands and take precedence over the twilight they overlap.
    */
-  getNextGoldenHour(date: Date, lat: number, lon: number): {
+  getTwilightTimeline(date: DayInput, lat: number, lon: number, options: SunCalculationOptions = {}): TwilightTimeline {
+    const day = this.resolveDay(date, options)
+    const solarNoon = this.getSunTimes(day.key, lat, lon, options).solarNoon
+    const bands = this.resolveLightBands(options.bands)
+    const dip = this.getHorizonDip(options.observerHeight)
+    const stepMs = 2 * 60 * 1000
+
+    const altitudeAt = (time: number) => this.getSunPosition(new Date(time), lat, lon).altitude - dip
+    const phaseAt = (time: number) => this.classifyAltitude(altitudeAt(time), bands)
+
+    const boundaries: { time: number; phase: TwilightPhaseName }[] = [
+      { time: day.start.getTime(), phase: phaseAt(day.start.getTime()) }
+    ]
+    let previousTime = day.start.getTime()
+
+    for (let time = previousTime + stepMs; previousTime < day.end.getTime(); time += stepMs) {
+      const currentTime = Math.min(time, day.end.getTime())
+      const current = phaseAt(currentTime)
+      const previous = boundaries[boundaries.length - 1].phase
+
+      if (current !== previous) {
+        const changedAt = refineCrossing(
+          t => (phaseAt(t) === previous ? 1 : -1),
+          previousTime,
+          currentTime
+        )
+        boundaries.push({ time: changedAt.getTime(), phase: current })
+      }
+
+      previousTime = currentTime
+    }
+
+    // Split the phase holding solar noon so each half can be labelled morning or evening
+    const noonTime = solarNoon.getTime()
+    const noonIndex = boundaries.findIndex((boundary, i) =>
+      boundary.time <= noonTime && (boundaries[i + 1]?.time ?? day.end.getTime()) > noonTime
+    )
+    if (noonIndex >= 0) {
+      boundaries.splice(
+        noonIndex + 1,
+        0,
+        { time: noonTime, phase: 'solar-noon' },
+        { time: noonTime, phase: boundaries[noonIndex].phase }
+      )
+    }
+
+    const phases = boundaries.map((boundary, i): TwilightPhase => {
+      const start = boundary.time
+      const end = boundary.phase === 'solar-noon' ? start : boundaries[i + 1]?.time ?? day.end.getTime()
+      return {
+        phase: boundary.phase,
+        label: this.getTwilightPhaseLabel(boundary.phase, start < noonTime),
+        start: new Date(start),
+        end: new Date(end),
+        duration: (end - start) / (1000 * 60),
+        startAltitude: altitudeAt(start),
+        endAltitude: altitudeAt(end)
+      }
+    })
+
+    return {
+      date: day.start,
+      localDate: day.key,
+      timezone: day.timezone,
+      dayState: this.getDayState(day.key, lat, lon, options),
+      lightBands: bands,
+      solarNoon,
+      // A phase can be empty where a boundary coincides with local midnight
+      phases: phases.filter(phase => phase.duration > 0 || phase.phase === 'solar-noon')
+    }
+  }
+
+  /**
+   * Light phase for a sun altitude above the observer's horizon
+   */
+  private classifyAltitude(altitude: number, bands: LightBands): TwilightPhaseName {
+    if (altitude >= bands.golden.max) return 'daylight'
+    if (altitude >= bands.golden.min) return 'golden-hour'
+    if (altitude >= bands.blue.min && altitude < bands.blue.max) return 'blue-hour'
+    if (altitude >= this.SUNRISE_ALTITUDE) return 'daylight'
+    if (altitude >= -6) return 'civil-twilight'
+    if (altitude >= -12) return 'nautical-twilight'
+    if (altitude >= -18) return 'astronomical-twilight'
+    return 'night'
+  }
+
+  private getTwilightPhaseLabel(phase: TwilightPhaseName, morning: boolean): string {
+    const label = TWILIGHT_PHASE_LABELS[phase]
+    if (phase === 'night' || phase === 'daylight' || phase === 'solar-noon') return label
+    return `${morning ? 'Morning' : 'Evening'} ${label}`
+  }
+
+  /**
+   * Get sunrise, sunset and golden hours as seen over the local terrain
+   */
+  getApparentSunTimes(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    horizonProfile: HorizonProfile,
+    options: SunCalculationOptions = {}
+  ): ApparentSunTimes {
+    const sunTimes = this.getSunTimes(date, lat, lon, options)
+    const goldenHours = this.getGoldenHourPeriods(date, lat, lon, options)
+    const solarNoon = sunTimes.solarNoon.getTime()
+    const stepMs = 2 * 60 * 1000
+
+    // Positive when the sun's upper limb is above the terrain at its current azimuth
+    const clearance = (time: number): number => {
+      const position = this.getSunPosition(new Date(time), lat, lon)
+      return position.altitude - this.SUNRISE_ALTITUDE - getHorizonAltitude(horizonProfile, position.azimuth)
+    }
+
+    let sunrise: Date | null = null
+    let sunset: Date | null = null
+    let previousTime = solarNoon - 12 * 60 * 60 * 1000
+    let previousClearance = clearance(previousTime)
+
+    for (let time = previousTime + stepMs; time <= solarNoon + 12 * 60 * 60 * 1000; time += stepMs) {
+      const currentClearance = clearance(time)
+
+      if (previousClearance <= 0 && currentClearance > 0 && !sunrise && time <= solarNoon) {
+        sunrise = refineCrossing(clearance, previousTime, time)
+      } else if (previousClearance > 0 && currentClearance <= 0 && time >= solarNoon) {
+        // Keep the last crossing so a brief dip behind a single peak doesn't end the day early
+        sunset = refineCrossing(clearance, previousTime, time)
+      }
+
+      previousTime = time
+      previousClearance = currentClearance
+    }
+
+    const clip = (period: GoldenHourPeriod, start: Date, end: Date): GoldenHourPeriod | null => {
+      if (end.getTime() <= start.getTime()) return null
+      return {
+        ...period,
+        start,
+        end,
+        duration: Math.round((end.getTime() - start.getTime()) / (1000 * 60)),
+        quality: this.calculateGoldenHourQuality(start, end, lat, lon),
+        intensity: this.calculateGoldenHourIntensity(new Date((start.getTime() + end.getTime()) / 2), lat, lon)
+      }
+    }
+
+    const { morning, evening } = goldenHours
+    return {
+      sunrise,
+      sunset,
+      goldenHours: {
+        morning: sunrise && morning
+          ? clip(morning, new Date(Math.max(morning.start.getTime(), sunrise.getTime())), morning.end)
+          : null,
+        evening: sunset && evening
+          ? clip(evening, evening.start, new Date(Math.min(evening.end.getTime(), sunset.getTime())))
+          : null
+      },
+      daylightDuration: sunrise && sunset
+        ? (sunset.getTime() - sunrise.getTime()) / (1000 * 60)
+        : 0
+    }
+  }
+
+  /**
+   * Sunrise and sunset under standard refraction and under the measured temperature and pressure.
+   * Cold, dense air bends light more and lifts the sun above the horizon sooner; hot air does the
+   * reverse. Both sets of times come from the same solar model, so `shift` is purely the correction.
+   * One set of conditions serves for both events unless separate ones are given.
+   */
+  getRefractedSunTimes(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    atmosphere: AtmosphericConditions | EventAtmospheres,
+    options: SunCalculationOptions = {}
+  ): RefractedSunTimes {
+    const atmospheres = 'sunrise' in atmosphere ? atmosphere : { sunrise: atmosphere, sunset: atmosphere }
+    for (const { temperature, pressure } of [atmospheres.sunrise, atmospheres.sunset]) {
+      if (isNaN(temperature) || temperature < -90 || temperature > 60) {
+        throw new Error('Temperature must be between -90 and 60 °C')
+      }
+      if (isNaN(pressure) || pressure < 300 || pressure > 1100) {
+        throw new Error('Pressure must be between 300 and 1100 hPa')
+      }
+    }
+
+    const dip = this.getHorizonDip(options.observerHeight)
+    const standardAltitude = this.SUNRISE_ALTITUDE + dip
+    // Shift the conventional horizon by how much the measured air changes refraction from standard air
+    const correct = ({ temperature, pressure }: AtmosphericConditions) => standardAltitude +
+      solarPositionEngine.getRiseSetAltitude(pressure, temperature) -
+      solarPositionEngine.getRiseSetAltitude()
+    const correctedAltitude = {
+      sunrise: correct(atmospheres.sunrise),
+      sunset: correct(atmospheres.sunset)
+    }
+
+    const standard = this.findHorizonEvents(date, lat, lon, standardAltitude, options)
+    const corrected = {
+      sunrise: this.findHorizonEvents(date, lat, lon, correctedAltitude.sunrise, options).sunrise,
+      sunset: this.findHorizonEvents(date, lat, lon, correctedAltitude.sunset, options).sunset
+    }
+    const shiftOf = (from: Date | null, to: Date | null) =>
+      from && to ? Math.round((to.getTime() - from.getTime()) / 1000) : null
+
+    return {
+      atmosphere: atmospheres,
+      horizonAltitude: {
+        standard: standardAltitude,
+        corrected: correctedAltitude
+      },
+      standard,
+      corrected,
+      shift: {
+        sunrise: shiftOf(standard.sunrise, corrected.sunrise),
+        sunset: shiftOf(standard.sunset, corrected.sunset)
+      }
+    }
+  }
+
+  /**
+   * When the sun's center crosses a geometric altitude on the way up and down during the local day
+   */
+  private findHorizonEvents(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    altitude: number,
+    options: SunCalculationOptions
+  ): { sunrise: Date | null; sunset: Date | null } {
+    const day = this.resolveDay(date, options)
+    // findAltitudeBandPeriods measures from the observer's horizon, which here is already in `altitude`
+    const { morning, evening } = this.findAltitudeBandPeriods(
+      day.key, lat, lon, { min: altitude - this.getHorizonDip(options.observerHeight), max: 90 }, options
+    )
+    const altitudeAt = (time: Date) => this.getSunPosition(time, lat, lon).altitude
+    const minuteMs = 60 * 1000
+
+    // A window already open at the edge of the search (midnight sun) has no rise or set of its own
+    const sunrise = morning && altitudeAt(new Date(morning.start.getTime() - minuteMs)) < altitude
+      ? morning.start
+      : null
+    const sunset = evening && altitudeAt(new Date(evening.end.getTime() + minuteMs)) < altitude
+      ? evening.end
+      : null
+
+    const inDay = (time: Date | null) => time && time >= day.start && time < day.end ? time : null
+    return { sunrise: inDay(sunrise), sunset: inDay(sunset) }
+  }
+
+  /**
+   * Get next golden hour with precise timing.
+   * For today this is the window in progress or the next one to start, searching ahead as many
+   * days as needed (the sun can skip the golden band for weeks near the poles).
+   */
+  getNextGoldenHour(date: DayInput, lat: number, lon: number, options: SunCalculationOptions = {}): {
     type: 'morning' | 'evening'
     start: Date
     end: Date
     timeUntil: number // minutes until start
     isCurrent: boolean
   } | null {
-    const now = new Date()
-    const selectedDate = new Date(date.toDateString())
-    const today = new Date(now.toDateString())
-    const goldenHours = this.getGoldenHourPeriods(selectedDate, lat, lon)
-    
-    // If selected date is today, use real-time logic
-    if (selectedDate.getTime() === today.getTime()) {
-      // Check if we're currently in morning golden hour
-      if (now >= goldenHours.morning.start && now <= goldenHours.morning.end) {
-        return {
-          type: 'morning',
-          start: goldenHours.morning.start,
-          end: goldenHours.morning.end,
-          timeUntil: 0,
-          isCurrent: true
-        }
-      }
-      
-      // Check if we're currently in evening golden hour
-      if (now >= goldenHours.evening.start && now <= goldenHours.evening.end) {
-        return {
-          type: 'evening',
-          start: goldenHours.evening.start,
-          end: goldenHours.evening.end,
-          timeUntil: 0,
-          isCurrent: true
-        }
-      }
-      
-      // Check next morning golden hour
-      if (now < goldenHours.morning.start) {
-        return {
-          type: 'morning',
-          start: goldenHours.morning.start,
-          end: goldenHours.morning.end,
-          timeUntil: Math.ceil((goldenHours.morning.start.getTime() - now.getTime()) / (1000 * 60)),
-          isCurrent: false
-        }
-      }
-      
-      // Check next evening golden hour
-      if (now < goldenHours.evening.start) {
-        return {
-          type: 'evening',
-          start: goldenHours.evening.start,
-          end: goldenHours.evening.end,
-          timeUntil: Math.ceil((goldenHours.evening.start.getTime() - now.getTime()) / (1000 * 60)),
-          isCurrent: false
-        }
-      }
-      
-      // If both golden hours have passed today, check tomorrow
-      const tomorrow = new Date(today)
-      tomorrow.setDate(tomorrow.getDate() + 1)
-      const tomorrowGoldenHours = this.getGoldenHourPeriods(tomorrow, lat, lon)
-      
-      return {
-        type: 'morning',
-        start: tomorrowGoldenHours.morning.start,
-        end: tomorrowGoldenHours.morning.end,
-        timeUntil: Math.ceil((tomorrowGoldenHours.morning.start.getTime() - now.getTime()) / (1000 * 60)),
-        isCurrent: false
-      }
-    } else {
-      // For past or future dates, always show the morning golden hour as the "next" one
-      // since we can't determine real-time status for non-current dates
-      const timeUntil = selectedDate < today 
-        ? 0 // Past dates show 0 time until (already passed)
-        : Math.ceil((goldenHours.morning.start.getTime() - now.getTime()) / (1000 * 60))
-      
-      return {
-        type: 'morning',
-        start: goldenHours.morning.start,
-        end: goldenHours.morning.end,
-        timeUntil: Math.max(0, timeUntil),
-        isCurrent: false
+    const now = this.clock.now()
+    const selectedDay = this.resolveDay(date, options).key
+    const today = getZonedDateKey(now, resolveTimeZone(options.timezone))
+
+    if (selectedDay === today) {
+      const [next] = this.findNextWindows(lat, lon, { ...options, band: 'golden', count: 1, from: now })
+      return next
+        ? { type: next.type, start: next.start, end: next.end, timeUntil: next.timeUntil, isCurrent: next.isCurrent }
+        : null
+    }
+
+    // For past or future dates, always show the first golden hour of the day as the "next" one
+    // since we can't determine real-time status for non-current dates
+    const goldenHours = this.getGoldenHourPeriods(selectedDay, lat, lon, options)
+    const first = (['morning', 'evening'] as const)
+      .flatMap(type => {
+        const period = goldenHours[type]
+        return period ? [{ type, start: period.start, end: period.end }] : []
+      })[0]
+    if (!first) return null
+
+    const timeUntil = selectedDay < today
+      ? 0 // Past dates show 0 time until (already passed)
+      : Math.ceil((first.start.getTime() - now.getTime()) / (1000 * 60))
+
+    return {
+      ...first,
+      timeUntil: Math.max(0, timeUntil),
+      isCurrent: false
+    }
+  }
+
+  /**
+   * Find the next `count` golden hour, blue hour or custom altitude band windows that have not
+   * yet ended, scanning forward day by day. A window carried across midnight (midnight sun) is
+   * reported once, under the day it started.
+   */
+  findNextWindows(lat: number, lon: number, options: LightWindowSearchOptions = {}): LightWindow[] {
+    const { band: bandOption = 'golden', count = 5, maxDays = 366, ...calculationOptions } = options
+    const from = options.from ?? this.clock.now()
+    const bands = this.resolveLightBands(calculationOptions.bands)
+    const band = typeof bandOption === 'string' ? bands[bandOption] : bandOption
+    const kind: LightWindowKind = typeof bandOption === 'string' ? bandOption : 'custom'
+
+    if (isNaN(band.min) || isNaN(band.max) || band.min >= band.max || band.min < -90 || band.max > 90) {
+      throw new Error(`Invalid altitude band: ${band.min}° to ${band.max}°`)
+    }
+
+    const timezone = resolveTimeZone(calculationOptions.timezone)
+    // Start a day early so a window still running from yesterday is found
+    const firstDay = addDays(getZonedDateKey(from, timezone), -1)
+    const windows: LightWindow[] = []
+
+    for (let offset = 0; offset <= maxDays && windows.length < count; offset++) {
+      const localDate = addDays(firstDay, offset)
+      const periods = this.findAltitudeBandPeriods(localDate, lat, lon, band, calculationOptions)
+
+      for (const type of ['morning', 'evening'] as const) {
+        const period = periods[type]
+        if (!period || period.end <= from) continue
+
+        // The same continuous window shows up as one day's evening and the next day's morning
+        const previous = windows[windows.length - 1]
+        if (previous && period.start < previous.end) continue
+
+        windows.push({
+          kind,
+          type,
+          localDate,
+          start: period.start,
+          end: period.end,
+          duration: Math.round((period.end.getTime() - period.start.getTime()) / (1000 * 60)),
+          band,
+          isCurrent: period.start <= from,
+          timeUntil: Math.max(0, Math.ceil((period.start.getTime() - from.getTime()) / (1000 * 60)))
+        })
       }
     }
+
+    return windows.slice(0, count)
   }
 
   /**
@@ -446,10 +1045,26 @@ class SunCalculator {
 }
 
 export const sunCalculator = new SunCalculator()
+export { SunCalculator, LIGHT_BAND_PRESETS }
 export type {
+  DayState,
+  AltitudeBand,
+  LightBands,
+  LightBandPreset,
   SunTimes,
   SunPosition,
   GoldenHourPeriod,
   BlueHourPeriod,
-  DayInfo
+  DayInfo,
+  TwilightPhaseName,
+  TwilightPhase,
+  TwilightTimeline,
+  LightWindowKind,
+  LightWindowSearchOptions,
+  LightWindow,
+  ApparentSunTimes,
+  AtmosphericConditions,
+  EventAtmospheres,
+  RefractedSunTimes,
+  SunCalculationOptions
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import type { DayInfo, LightBandPreset, TwilightTimeline } from './sun-calculator'
+import type { LightConditions, LightCurve } from './light-model'
+import type { ShadowFeatureCollection, ShadowPlannerOptions } from './shadow-planner'
+import type { SunPathFeatureCollection, SunPathGeometryOptions } from './sun-path-geometry'
+import { getJSON } from './api-client'
+
+interface SunRequestOptions {
+  timezone?: string // IANA zone that defines the day; the server looks it up from the location otherwise
+  observerHeight?: number // meters above the surrounding terrain
+  bands?: LightBandPreset
+}
+
+/**
+ * Browser access to the sun calculations through the API routes, so the solar position engine
+ * and its tables stay out of the client bundle
+ */
+class SunClient {
+  /**
+   * Sun and moon times, golden and blue hours and the sun path for a local date (YYYY-MM-DD)
+   */
+  async getDayInfo(lat: number, lon: number, date?: string, options: SunRequestOptions = {}): Promise<DayInfo> {
+    return getJSON('/api/day-info', this.getParams(lat, lon, date, options))
+  }
+
+  /**
+   * Night, twilight, blue and golden hour and daylight phases for a local date, as one continuous day
+   */
+  async getTwilightTimeline(lat: number, lon: number, date?: string, options: SunRequestOptions = {}): Promise<TwilightTimeline> {
+    return getJSON('/api/twilight', this.getParams(lat, lon, date, options))
+  }
+
+  /**
+   * Color temperature and illuminance through a local date, under the given weather when there is some
+   */
+  async getLightCurve(
+    lat: number,
+    lon: number,
+    date?: string,
+    options: Pick<SunRequestOptions, 'timezone'> & { weather?: LightConditions | null } = {}
+  ): Promise<LightCurve> {
+    return getJSON('/api/light-curve', {
+      lat,
+      lon,
+      date,
+      tz: options.timezone,
+      clouds: options.weather?.clouds,
+      humidity: options.weather?.humidity,
+      visibility: options.weather?.visibility
+    })
+  }
+
+  /**
+   * The day's sun path, rays and golden hour arcs around a location as GeoJSON, over the local
+   * terrain where the server has elevation data, with the timezone the day was taken in
+   */
+  async getSunPath(
+    lat: number,
+    lon: number,
+    date?: string,
+    options: SunRequestOptions & Pick<SunPathGeometryOptions, 'radius' | 'arcStep'> = {}
+  ): Promise<{ timezone: string; geometry: SunPathFeatureCollection }> {
+    return getJSON('/api/sun-path', {
+      ...this.getParams(lat, lon, date, options),
+      radius: options.radius,
+      arcStep: options.arcStep
+    }, { reviveDates: false })
+  }
+
+  /**
+   * Shadows of a vertical object (meters) between two times, one GeoJSON line per time step
+   */
+  async getShadows(
+    lat: number,
+    lon: number,
+    objectHeight: number,
+    start: Date,
+    end: Date,
+    options: ShadowPlannerOptions = {}
+  ): Promise<ShadowFeatureCollection> {
+    return getJSON('/api/shadows', {
+      lat,
+      lon,
+      objectHeight,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      step: options.stepMinutes,
+      maxLength: options.maxLength
+    }, { reviveDates: false })
+  }
+
+  private getParams(lat: number, lon: number, date: string | undefined, options: SunRequestOptions) {
+    return {
+      lat,
+      lon,
+      date,
+      tz: options.timezone,
+      height: options.observerHeight,
+      bands: options.bands
+    }
+  }
+}
+
+export const sunClient = new SunClient()
+export type { SunRequestOptions }
@@ -0,0 +1,254 @@
+import type { Feature, FeatureCollection, LineString, Point, Position } from 'geojson'
+import { sunCalculator, type SunCalculationOptions } from './sun-calculator'
+import { destinationPoint } from './horizon-profile'
+import { getZonedDateParts, type DayInput } from './timezone-utils'
+
+type SunPathFeatureKind = 'sun-path' | 'hour' | 'ray' | 'arc'
+
+type SunPathEvent =
+  | 'sunrise'
+  | 'sunset'
+  | 'solar-noon'
+  | 'morning-golden-hour'
+  | 'evening-golden-hour'
+  | 'daylight'
+
+interface SunPathGeometryOptions extends SunCalculationOptions {
+  radius?: number // meters from the center to the horizon ring, default 500
+  arcStep?: number // degrees of azimuth between arc vertices, default 2
+}
+
+interface SunPathFeatureProperties {
+  kind: SunPathFeatureKind
+  event?: SunPathEvent
+  label: string
+  time?: string // ISO 8601, for rays and hour markers
+  start?: string // ISO 8601, for arcs
+  end?: string
+  azimuth?: number // degrees from North, for rays and hour markers
+  fromAzimuth?: number // arcs run clockwise or counter-clockwise from here...
+  toAzimuth?: number // ...to here, the way the sun moves
+  altitude?: number // degrees, for hour markers
+}
+
+type SunPathFeatureCollection = FeatureCollection<LineString | Point, SunPathFeatureProperties>
+
+const DEFAULT_OPTIONS = {
+  radius: 500,
+  arcStep: 2
+}
+
+// Arcs sit just inside the horizon ring so they don't hide the rays' end points
+const ARC_RADIUS_FRACTION = 0.85
+
+class SunPathGeometryGenerator {
+  /**
+   * The day's sun path, sunrise/sunset/noon rays and golden hour arcs around a point, as GeoJSON.
+   * The path is drawn in a polar projection: the horizon on the outer ring, the zenith at the center.
+   */
+  getSunPathGeoJSON(date: DayInput, lat: number, lon: number, options: SunPathGeometryOptions = {}): SunPathFeatureCollection {
+    const radius = options.radius ?? DEFAULT_OPTIONS.radius
+    const arcStep = options.arcStep ?? DEFAULT_OPTIONS.arcStep
+
+    if (!(radius > 0)) {
+      throw new Error('Radius must be a positive number of meters')
+    }
+
+    const features: Feature<LineString | Point, SunPathFeatureProperties>[] = [
+      ...this.getPathFeatures(date, lat, lon, radius, options),
+      ...this.getHourFeatures(date, lat, lon, radius, options),
+      ...this.getRayFeatures(date, lat, lon, radius, options),
+      ...this.getArcFeatures(date, lat, lon, radius * ARC_RADIUS_FRACTION, arcStep, options)
+    ]
+
+    return { type: 'FeatureCollection', features }
+  }
+
+  /**
+   * Project a sun position onto the map: further from the center the lower the sun
+   */
+  projectPosition(lat: number, lon: number, azimuth: number, altitude: number, radius: number): Position {
+    const distance = radius * (90 - Math.max(0, Math.min(altitude, 90))) / 90
+    const point = destinationPoint(lat, lon, azimuth, distance)
+    // GeoJSON positions are [longitude, latitude]
+    return [point.lon, point.lat]
+  }
+
+  private getPathFeatures(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    radius: number,
+    options: SunCalculationOptions
+  ): Feature<LineString, SunPathFeatureProperties>[] {
+    // Split the path wherever the sun dips below the horizon, e.g. both ends of a normal day
+    const runs: Position[][] = []
+    let current: Position[] = []
+
+    for (const position of sunCalculator.getSunPath(date, lat, lon, options)) {
+      if (position.altitude > 0) {
+        current.push(this.projectPosition(lat, lon, position.azimuth, position.altitude, radius))
+      } else if (current.length) {
+        runs.push(current)
+        current = []
+      }
+    }
+    if (current.length) runs.push(current)
+
+    return runs
+      .filter(run => run.length >= 2)
+      .map(coordinates => ({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates },
+        properties: { kind: 'sun-path', label: 'Sun path' }
+      }))
+  }
+
+  private getHourFeatures(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    radius: number,
+    options: SunCalculationOptions
+  ): Feature<Point, SunPathFeatureProperties>[] {
+    const day = sunCalculator.resolveDay(date, options)
+    const features: Feature<Point, SunPathFeatureProperties>[] = []
+
+    for (let time = day.start.getTime(); time < day.end.getTime(); time += 60 * 60 * 1000) {
+      const instant = new Date(time)
+      const position = sunCalculator.getSunPosition(instant, lat, lon)
+      if (position.altitude <= 0) continue
+
+      const { hour } = getZonedDateParts(instant, day.timezone)
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: this.projectPosition(lat, lon, position.azimuth, position.altitude, radius) },
+        properties: {
+          kind: 'hour',
+          label: `${String(hour).padStart(2, '0')}:00`,
+          time: instant.toISOString(),
+          azimuth: position.azimuth,
+          altitude: position.altitude
+        }
+      })
+    }
+
+    return features
+  }
+
+  private getRayFeatures(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    radius: number,
+    options: SunCalculationOptions
+  ): Feature<LineString, SunPathFeatureProperties>[] {
+    const sunTimes = sunCalculator.getSunTimes(date, lat, lon, options)
+    const events: { event: SunPathEvent; label: string; time: Date | null }[] = [
+      { event: 'sunrise', label: 'Sunrise', time: sunTimes.sunrise },
+      { event: 'solar-noon', label: 'Solar noon', time: sunTimes.solarNoon },
+      { event: 'sunset', label: 'Sunset', time: sunTimes.sunset }
+    ]
+
+    return events
+      .filter((entry): entry is { event: SunPathEvent; label: string; time: Date } => entry.time !== null)
+      .map(({ event, label, time }) => {
+        const azimuth = sunCalculator.getSunPosition(time, lat, lon).azimuth
+        const end = destinationPoint(lat, lon, azimuth, radius)
+        return {
+          type: 'Feature',
+          geometry: { type: 'LineString', coordinates: [[lon, lat], [end.lon, end.lat]] },
+          properties: { kind: 'ray', event, label, time: time.toISOString(), azimuth }
+        }
+      })
+  }
+
+  private getArcFeatures(
+    date: DayInput,
+    lat: number,
+    lon: number,
+    radius: number,
+    arcStep: number,
+    options: SunCalculationOptions
+  ): Feature<LineString, SunPathFeatureProperties>[] {
+    const sunTimes = sunCalculator.getSunTimes(date, lat, lon, options)
+    const goldenHours = sunCalculator.getGoldenHourPeriods(date, lat, lon, options)
+    const windows: { event: SunPathEvent; label: string; start: Date; end: Date }[] = []
+
+    if (goldenHours.morning) {
+      windows.push({ event: 'morning-golden-hour', label: 'Morning golden hour', ...goldenHours.morning })
+    }
+    if (goldenHours.evening) {
+      windows.push({ event: 'evening-golden-hour', label: 'Evening golden hour', ...goldenHours.evening })
+    }
+    if (sunTimes.sunrise && sunTimes.sunset && sunTimes.sunrise < sunTimes.sunset) {
+      windows.push({ event: 'daylight', label: 'Daylight', start: sunTimes.sunrise, end: sunTimes.sunset })
+    }
+
+    return windows.map(({ event, label, start, end }) => {
+      const fromAzimuth = sunCalculator.getSunPosition(start, lat, lon).azimuth
+      const toAzimuth = sunCalculator.getSunPosition(end, lat, lon).azimuth
+      const clockwise = this.isClockwise(start, end, lat, lon)
+
+      return {
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: this.arcCoordinates(lat, lon, radius, fromAzimuth, toAzimuth, clockwise, arcStep)
+        },
+        properties: {
+          kind: 'arc',
+          event,
+          label,
+          start: start.toISOString(),
+          end: end.toISOString(),
+          fromAzimuth,
+          toAzimuth
+        }
+      }
+    })
+  }
+
+  /**
+   * Whether the sun's azimuth increases between two times: true north of the tropics,
+   * false south of them, and either way in the tropics depending on the season
+   */
+  private isClockwise(start: Date, end: Date, lat: number, lon: number): boolean {
+    const mid = new Date((start.getTime() + end.getTime()) / 2)
+    const a = sunCalculator.getSunPosition(start, lat, lon).azimuth
+    const b = sunCalculator.getSunPosition(mid, lat, lon).azimuth
+    return ((b - a + 360) % 360) < 180
+  }
+
+  private arcCoordinates(
+    lat: number,
+    lon: number,
+    radius: number,
+    fromAzimuth: number,
+    toAzimuth: number,
+    clockwise: boolean,
+    arcStep: number
+  ): Position[] {
+    const sweep = clockwise
+      ? (toAzimuth - fromAzimuth + 360) % 360
+      : -((fromAzimuth - toAzimuth + 360) % 360)
+    const steps = Math.max(1, Math.ceil(Math.abs(sweep) / arcStep))
+    const coordinates: Position[] = []
+
+    for (let i = 0; i <= steps; i++) {
+      const point = destinationPoint(lat, lon, (fromAzimuth + sweep * i / steps + 360) % 360, radius)
+      coordinates.push([point.lon, point.lat])
+    }
+
+    return coordinates
+  }
+}
+
+export const sunPathGeometryGenerator = new SunPathGeometryGenerator()
+export type {
+  SunPathFeatureKind,
+  SunPathEvent,
+  SunPathGeometryOptions,
+  SunPathFeatureProperties,
+  SunPathFeatureCollection
+}
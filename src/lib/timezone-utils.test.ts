@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { formatZonedISO, fromZonedJSON, toZonedJSON } from './timezone-utils'
+
+describe('toZonedJSON / fromZonedJSON', () => {
+  it('writes dates with the zone offset', () => {
+    expect(formatZonedISO(new Date('2025-06-21T03:48:15Z'), 'Europe/Paris')).toBe('2025-06-21T05:48:15+02:00')
+    expect(formatZonedISO(new Date('2025-12-21T15:03:00Z'), 'Australia/Sydney')).toBe('2025-12-22T02:03:00+11:00')
+  })
+
+  it('round-trips dates nested in objects and arrays and leaves other strings alone', () => {
+    const value = {
+      localDate: '2025-06-21',
+      sunrise: new Date('2025-06-21T03:48:15Z'),
+      sunset: null,
+      windows: [{ start: new Date('2025-06-21T19:00:00Z'), label: 'Evening golden hour' }],
+      times: [new Date('2025-06-21T12:00:00Z')]
+    }
+    const json = JSON.parse(JSON.stringify(toZonedJSON(value, 'America/New_York')))
+
+    expect(json.sunrise).toBe('2025-06-20T23:48:15-04:00')
+    expect(fromZonedJSON(json)).toEqual(value)
+  })
+})
@@ -0,0 +1,205 @@
+// A calendar day is either a Date (its calendar date in the target zone) or a "YYYY-MM-DD" string
+type DayInput = Date | string
+
+interface ZonedDateParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+interface ZonedDay {
+  key: string // YYYY-MM-DD in the zone
+  start: Date // local midnight
+  end: Date // next local midnight (23 or 25 hours later on DST changes)
+  noon: Date // local noon
+  timezone: string
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The host's zone, used only when a caller doesn't know the location's zone
+export function getDefaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+export function resolveTimeZone(timeZone?: string | null): string {
+  return isValidTimeZone(timeZone) ? timeZone : getDefaultTimeZone()
+}
+
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number.parseInt(part.value, 10)
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  }
+}
+
+// Offset of the zone from UTC in minutes at a given instant (e.g. +120 for CEST)
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone)
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / (60 * 1000))
+}
+
+// The instant at which a wall-clock time occurs in a zone
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute)
+  // Two passes settle the offset even when the guess lands on the other side of a DST change
+  let offset = getTimeZoneOffset(new Date(guess), timeZone)
+  offset = getTimeZoneOffset(new Date(guess - offset * 60 * 1000), timeZone)
+  return new Date(guess - offset * 60 * 1000)
+}
+
+export function getZonedDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDateParts(date, timeZone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+export function getZonedDay(date: DayInput, timeZone: string): ZonedDay {
+  let year: number
+  let month: number
+  let day: number
+
+  if (typeof date === 'string') {
+    const match = date.match(/^(\d{4})-(\d{2})-(\d{2})/)
+    if (!match) {
+      throw new Error(`Invalid date: ${date}`)
+    }
+    year = Number.parseInt(match[1], 10)
+    month = Number.parseInt(match[2], 10)
+    day = Number.parseInt(match[3], 10)
+  } else {
+    ({ year, month, day } = getZonedDateParts(date, timeZone))
+  }
+
+  // Date.UTC normalizes day overflow, so day + 1 handles month and year ends
+  const next = new Date(Date.UTC(year, month - 1, day + 1))
+
+  return {
+    key: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    start: zonedTimeToUtc(year, month, day, 0, 0, timeZone),
+    end: zonedTimeToUtc(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), 0, 0, timeZone),
+    noon: zonedTimeToUtc(year, month, day, 12, 0, timeZone),
+    timezone: timeZone
+  }
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(part => Number.parseInt(part, 10))
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0]
+}
+
+// Day of year (1-366) of the calendar date in the zone
+export function getZonedDayOfYear(date: Date, timeZone: string): number {
+  const { year, month, day } = getZonedDateParts(date, timeZone)
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 0)) / (24 * 60 * 60 * 1000))
+}
+
+// ISO 8601 timestamp with the zone's offset, e.g. 2025-06-21T05:48:15+02:00
+export function formatZonedISO(date: Date, timeZone: string): string {
+  const { year, month, day, hour, minute, second } = getZonedDateParts(date, timeZone)
+  const offset = getTimeZoneOffset(date, timeZone)
+  const sign = offset >= 0 ? '+' : '-'
+  const absolute = Math.abs(offset)
+  const pad = (value: number) => String(value).padStart(2, '0')
+
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+}
+
+type Zoned<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Zoned<U>[]
+    : T extends object
+      ? { [K in keyof T]: Zoned<T[K]> }
+      : T
+
+// Replace every Date in a result with a zone-aware ISO string, so server and browser render the same times
+export function toZonedJSON<T>(value: T, timeZone: string): Zoned<T> {
+  if (value instanceof Date) {
+    return (isNaN(value.getTime()) ? null : formatZonedISO(value, timeZone)) as Zoned<T>
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => toZonedJSON(item, timeZone)) as Zoned<T>
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = toZonedJSON(item, timeZone)
+    }
+    return result as Zoned<T>
+  }
+  return value as Zoned<T>
+}
+
+// Zone-aware ISO strings as written by formatZonedISO (or plain UTC ones)
+const ZONED_ISO = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+
+// Undo toZonedJSON on the client: every zone-aware ISO string becomes a Date again
+export function fromZonedJSON<T>(value: unknown): T {
+  if (typeof value === 'string') {
+    return (ZONED_ISO.test(value) ? new Date(value) : value) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fromZonedJSON(item)) as T
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = fromZonedJSON(item)
+    }
+    return result as T
+  }
+  return value as T
+}
+
+export type { DayInput, ZonedDateParts, ZonedDay, Zoned }
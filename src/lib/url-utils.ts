@@ -4,6 +4,7 @@ export interface LocationParams {
   date?: string
   locationName?: string
   slug?: string
+  observerHeight?: number // meters, appended as ?height=
 }
 
 export function generateLocationSlug(locationName: string): string {
@@ -38,6 +39,17 @@ export function extractCoordinatesFromSlug(slug: string): { coordinates: string;
 }
 
 export function generateSEOFriendlyURL(params: LocationParams): string {
+  const { observerHeight } = params
+  const path = generateSEOFriendlyPath(params)
+
+  // Observer height is optional and kept out of the path so existing URLs stay canonical
+  if (observerHeight && observerHeight > 0) {
+    return `${path}?height=${Math.round(observerHeight)}`
+  }
+  return path
+}
+
+function generateSEOFriendlyPath(params: LocationParams): string {
   const { lat, lng, date, locationName } = params
   const baseUrl = "/golden-hour"
 
@@ -83,6 +95,18 @@ export function parseDateFromURL(dateString: string): Date | null {
   return isNaN(date.getTime()) ? null : date
 }
 
+// Observer height in meters from the ?height= query parameter
+export function parseObserverHeight(value: string | null | undefined): number | null {
+  if (!value) return null
+
+  const height = Number.parseFloat(value)
+  if (isNaN(height) || height <= 0 || height > 10000) {
+    return null
+  }
+
+  return height
+}
+
 export function formatDateForURL(date: Date): string {
   return date.toISOString().split("T")[0]
 }
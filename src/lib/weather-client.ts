@@ -0,0 +1,59 @@
+import type { WeatherData, WeatherForecast, WeatherProviderName } from '@/types/weather'
+import type { ShootingWindowForecast } from './weather-service'
+import type { SkyColorForecast } from './sky-color-predictor'
+import { getJSON } from './api-client'
+
+interface WeatherReading<T> {
+  timezone: string
+  provider: WeatherProviderName
+  fetchedAt: Date
+  data: T
+}
+
+type WeatherReadingMeta = Omit<WeatherReading<unknown>, 'data'>
+
+interface PhotographyConditionsResult {
+  timezone: string
+  goldenHourQuality: 'excellent' | 'good' | 'fair' | 'poor'
+  blueHourQuality: 'excellent' | 'good' | 'fair' | 'poor'
+  overallScore: number
+  recommendations: string[]
+  windows: ShootingWindowForecast[]
+  skyColor: SkyColorForecast | null
+}
+
+/**
+ * Browser access to weather through the /api/weather routes, so the provider key stays on the server
+ */
+class WeatherClient {
+  async getCurrent(lat: number, lon: number, timezone?: string): Promise<WeatherReading<WeatherData>> {
+    const { current, ...rest } = await getJSON<WeatherReadingMeta & { current: WeatherData }>(
+      '/api/weather/current',
+      { lat, lon, tz: timezone }
+    )
+    return { ...rest, data: current }
+  }
+
+  async getForecast(lat: number, lon: number, timezone?: string): Promise<WeatherReading<WeatherForecast>> {
+    const { forecast, ...rest } = await getJSON<WeatherReadingMeta & { forecast: WeatherForecast }>(
+      '/api/weather/forecast',
+      { lat, lon, tz: timezone }
+    )
+    return { ...rest, data: forecast }
+  }
+
+  /**
+   * Golden and blue hour quality for a local date (YYYY-MM-DD), defaulting to today
+   */
+  async getPhotographyConditions(
+    lat: number,
+    lon: number,
+    date?: string,
+    timezone?: string
+  ): Promise<PhotographyConditionsResult> {
+    return getJSON('/api/weather/photography-conditions', { lat, lon, date, tz: timezone })
+  }
+}
+
+export const weatherClient = new WeatherClient()
+export type { WeatherReading, PhotographyConditionsResult }
@@ -0,0 +1,54 @@
+import * as SunCalc from 'suncalc'
+import type { WeatherProviderName, WeatherSnapshot } from '@/types/weather'
+
+/**
+ * A source of weather for a location. Providers translate their own API shapes into the
+ * normalized types in src/types/weather.ts so nothing downstream depends on a vendor.
+ */
+interface WeatherProvider {
+  readonly name: WeatherProviderName
+  getWeather(lat: number, lon: number): Promise<WeatherSnapshot>
+}
+
+/**
+ * GET a JSON document, retrying with a growing delay on network or HTTP errors
+ */
+async function fetchJSONWithRetry(url: string, retries = 3): Promise<any> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'GoldenHourCalculator/1.0'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      return await response.json()
+    } catch (error) {
+      if (i === retries - 1) {
+        throw error
+      }
+      console.warn(`Weather API retry ${i + 1} failed:`, error)
+      await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)))
+    }
+  }
+}
+
+/**
+ * Sunrise and sunset of the solar day nearest `time`, for providers that don't report them per entry.
+ * Days without a sunrise or sunset (polar regions) fall back to solar noon.
+ */
+function getSunEvents(time: Date, lat: number, lon: number): { sunrise: Date; sunset: Date } {
+  const times = SunCalc.getTimes(time, lat, lon)
+  // SunCalc reports events that don't happen as null
+  const valid = (date: Date | null | undefined) =>
+    date instanceof Date && !isNaN(date.getTime()) ? date : times.solarNoon
+  return { sunrise: valid(times.sunrise), sunset: valid(times.sunset) }
+}
+
+export { fetchJSONWithRetry, getSunEvents }
+export type { WeatherProvider }
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { FixedClock } from './clock'
+import { FixtureWeatherProvider, type WeatherFixture } from './fixture-weather-provider'
+import { WeatherService } from './weather-service'
+import type { WeatherProvider } from './weather-provider'
+import type { WeatherData } from '@/types/weather'
+
+const HOUR = 60 * 60 * 1000
+
+describe('WeatherService.getPhotographyConditions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('scores each window from the forecast entry nearest its middle', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    // Clear until midday, then rain; each entry's temperature is its hour so it can be told apart
+    const hour = (h: number, weather: Partial<WeatherFixture['current']> = {}): WeatherFixture['current'] => ({
+      time: new Date(Date.UTC(2025, 5, 1, h)).toISOString(),
+      temp: h,
+      condition: h < 12 ? 'Clear' : 'Rain',
+      description: h < 12 ? 'clear sky' : 'moderate rain',
+      clouds: h < 12 ? 0 : 90,
+      visibility: 10,
+      humidity: 60,
+      windSpeed: 3,
+      uvIndex: 0,
+      ...weather
+    })
+    const service = new WeatherService(new FixtureWeatherProvider({
+      fixture: {
+        generatedAt: '2025-06-01T00:00:00.000Z',
+        current: hour(0),
+        forecast: { hourly: Array.from({ length: 23 }, (_, i) => hour(i + 1)), daily: [] }
+      },
+      clock: new FixedClock('2025-06-01T00:00:00Z'),
+      rebase: false
+    }))
+
+    const conditions = await service.getPhotographyConditions(51.5074, -0.1278, '2025-06-01', { timezone: 'Europe/London' })
+    const windows = Object.fromEntries(conditions.windows.map(window => [`${window.type} ${window.kind}`, window]))
+
+    expect(conditions.windows).toHaveLength(4)
+    for (const window of conditions.windows) {
+      const middle = (window.start.getTime() + window.end.getTime()) / 2
+      const nearest = Math.round(middle / HOUR) * HOUR
+
+      expect(window.forecast!.time).toEqual(new Date(nearest))
+      expect(window.forecast!.temp).toBe(new Date(nearest).getUTCHours())
+      expect(window.leadTime).toBe(new Date(nearest).getUTCHours())
+      expect(window.offset).toBe(Math.round((nearest - middle) / 60000))
+      expect(Math.abs(window.offset!)).toBeLessThanOrEqual(30)
+    }
+
+    // Clear mornings score full marks; heavy cloud and rain take the evening down
+    expect(windows['morning golden'].score).toBe(100)
+    expect(windows['morning blue'].score).toBe(100)
+    expect(windows['evening golden'].score).toBe(10)
+    expect(windows['evening blue'].score).toBe(30)
+    expect(windows['evening golden'].quality).toBe('poor')
+    // The whole day is past by now, so the summary takes the evening windows
+    expect(conditions.overallScore).toBe(20)
+  })
+
+  it('lets provider failures through instead of inventing a fair forecast', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const failing: WeatherProvider = {
+      name: 'openweathermap',
+      getWeather: async () => {
+        throw new Error('HTTP error! status: 503')
+      }
+    }
+
+    await expect(new WeatherService(failing).getPhotographyConditions(51.5074, -0.1278)).rejects.toThrow()
+  })
+})
+
+describe('WeatherService.getAtmosphere', () => {
+  const reading = (time: string, weather: Partial<WeatherData>): WeatherData => ({
+    temp: 15,
+    condition: 'Clear',
+    description: 'clear sky',
+    clouds: 0,
+    visibility: 10,
+    humidity: 60,
+    windSpeed: 3,
+    uvIndex: 0,
+    sunrise: new Date('2025-06-01T03:49:00Z'),
+    sunset: new Date('2025-06-01T20:11:00Z'),
+    time: new Date(time),
+    ...weather
+  })
+  const provider: WeatherProvider = {
+    name: 'openweathermap',
+    getWeather: async () => ({
+      provider: 'openweathermap',
+      fetchedAt: new Date('2025-06-01T12:00:00Z'),
+      current: reading('2025-06-01T12:00:00Z', { temp: 19, pressure: 1016, stationPressure: 1012 }),
+      forecast: {
+        hourly: [
+          reading('2025-06-01T18:00:00Z', { temp: 16, pressure: 1014, stationPressure: 1010 }),
+          reading('2025-06-01T21:00:00Z', { temp: 12, pressure: 1013, stationPressure: 1009 }),
+          reading('2025-06-02T03:00:00Z', { temp: 8, pressure: 1011 })
+        ],
+        daily: []
+      }
+    })
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('takes the forecast entry closest to the time, at station pressure', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const service = new WeatherService(provider)
+
+    expect(await service.getAtmosphere(51.5074, -0.1278, new Date('2025-06-01T20:11:00Z')))
+      .toEqual({ temperature: 12, pressure: 1009 })
+    expect(await service.getAtmosphere(51.5074, -0.1278)).toEqual({ temperature: 19, pressure: 1012 })
+  })
+
+  it('falls back to sea-level pressure and to current conditions past the forecast', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const service = new WeatherService(provider)
+
+    expect(await service.getAtmosphere(51.5074, -0.1278, new Date('2025-06-02T03:49:00Z')))
+      .toEqual({ temperature: 8, pressure: 1011 })
+    expect(await service.getAtmosphere(51.5074, -0.1278, new Date('2025-06-05T03:49:00Z')))
+      .toEqual({ temperature: 19, pressure: 1012 })
+  })
+})
@@ -1,82 +1,67 @@
-// Raw OpenWeatherMap API response structure
-interface OpenWeatherMapResponse {
-  main: {
-    temp: number
-    feels_like: number
-    temp_min: number
-    temp_max: number
-    pressure: number
-    humidity: number
-  }
-  weather: {
-    id: number
-    main: string
-    description: string
-    icon: string
-  }[]
-  wind: {
-    speed: number
-    deg: number
-  }
-  clouds: {
-    all: number
-  }
-  visibility: number
-  uvi?: number
-  name: string
-  sys: {
-    country: string
-    sunrise: number
-    sunset: number
-  }
-  alerts?: any[]
+import type { WeatherData, WeatherForecast, WeatherProviderName, WeatherSnapshot } from '@/types/weather'
+import type { WeatherProvider } from './weather-provider'
+import { sunCalculator, type SunCalculationOptions } from './sun-calculator'
+import type { DayInput } from './timezone-utils'
+import { fogPredictor, type FogForecast } from './fog-predictor'
+import { RECENT_PRECIPITATION_HOURS, skyColorPredictor, type SkyColorForecast } from './sky-color-predictor'
+import { OpenWeatherMapProvider } from './openweathermap-provider'
+import { OpenMeteoProvider } from './open-meteo-provider'
+import { FixtureWeatherProvider } from './fixture-weather-provider'
+
+interface ShootingWindowForecast {
+  kind: 'golden' | 'blue'
+  type: 'morning' | 'evening'
+  start: Date
+  end: Date
+  score: number | null // 0-100, null beyond the forecast range
+  quality: 'excellent' | 'good' | 'fair' | 'poor' | null
+  recommendations: string[]
+  forecast: WeatherData | null // entry closest to the middle of the window
+  leadTime: number | null // hours between fetching the forecast and the entry's time
+  offset: number | null // minutes from the middle of the window to the entry's time
 }
 
-interface WeatherForecast {
-  dt: number
-  main: {
-    temp: number
-    feels_like: number
-    temp_min: number
-    temp_max: number
-    pressure: number
-    humidity: number
-  }
-  weather: {
-    id: number
-    main: string
-    description: string
-    icon: string
-  }[]
-  clouds: {
-    all: number
-  }
-  wind: {
-    speed: number
-    deg: number
-  }
-  visibility: number
-  pop: number
-  dt_txt: string
-}
-
-interface WeatherResponse {
-  current: OpenWeatherMapResponse
-  forecast: WeatherForecast[]
-  alerts?: any[]
+// Server-only: the key must never be exposed through a NEXT_PUBLIC_ variable
+const WEATHER_API_KEY = process.env.OPENWEATHER_API_KEY
+if (process.env.NEXT_PUBLIC_OPENWEATHER_API_KEY) {
+  console.warn(
+    'NEXT_PUBLIC_OPENWEATHER_API_KEY is set and gets bundled into browser code. ' +
+    'Rename it to OPENWEATHER_API_KEY; the NEXT_PUBLIC_ variable is ignored.'
+  )
 }
-
-const WEATHER_API_KEY = process.env.NEXT_PUBLIC_OPENWEATHER_API_KEY
-const BASE_URL = "https://api.openweathermap.org/data/2.5"
-
-if (!WEATHER_API_KEY) {
-  console.error('NEXT_PUBLIC_OPENWEATHER_API_KEY environment variable is not set')
+// Spacing assumed between forecast entries when there are too few to measure it
+const FORECAST_STEP_MS = 3 * 60 * 60 * 1000
+
+/**
+ * Pick a provider by name (WEATHER_PROVIDER), otherwise OpenWeatherMap when a key is configured
+ * and the keyless Open-Meteo when it isn't
+ */
+function createWeatherProvider(name: string | undefined = process.env.WEATHER_PROVIDER): WeatherProvider {
+  switch (name as WeatherProviderName | undefined) {
+    case 'openweathermap':
+      return new OpenWeatherMapProvider(WEATHER_API_KEY)
+    case 'open-meteo':
+      return new OpenMeteoProvider()
+    case 'fixture':
+      return new FixtureWeatherProvider()
+    default:
+      if (name) {
+        console.warn(`Unknown WEATHER_PROVIDER "${name}", falling back to the default`)
+      }
+      return WEATHER_API_KEY ? new OpenWeatherMapProvider(WEATHER_API_KEY) : new OpenMeteoProvider()
+  }
 }
 
 class WeatherService {
-  private cache = new Map<string, { data: WeatherResponse; timestamp: number }>()
+  private cache = new Map<string, { data: WeatherSnapshot; timestamp: number }>()
   private CACHE_DURATION = 10 * 60 * 1000 // 10 minutes
 
+  constructor(private readonly provider: WeatherProvider = createWeatherProvider()) {}
+
+  get providerName(): WeatherProviderName {
+    return this.provider.name
+  }
+
   private generateCacheKey(lat: number, lon: number): string {
     // Ensure lat and lon are valid numbers before calling toFixed
     const safeLat = typeof lat === 'number' && !isNaN(lat) ? lat : 0
@@ -88,48 +73,18 @@ class WeatherService {
     return Date.now() - timestamp < this.CACHE_DURATION
   }
 
-  private async fetchWithRetry(url: string, retries = 3): Promise<any> {
-    for (let i = 0; i < retries; i++) {
-      try {
-        const response = await fetch(url, {
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'GoldenHourCalculator/1.0'
-          }
-        })
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`)
-        }
+  /**
+   * Current conditions and forecast for a location, normalized by the configured provider
+   */
+  async getWeather(lat: number, lon: number): Promise<WeatherSnapshot> {
+    console.log('🌤️ WeatherService: getWeather called with coordinates:', { lat, lon, provider: this.provider.name })
 
-        return await response.json()
-      } catch (error) {
-        if (i === retries - 1) {
-          throw error
-        }
-        console.warn(`Weather API retry ${i + 1} failed:`, error)
-        await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)))
-      }
-    }
-  }
-
-  async getWeatherData(lat: number, lon: number): Promise<WeatherResponse> {
-    console.log('🌤️ WeatherService: getWeatherData called with coordinates:', { lat, lon })
-    
-    // Check if API key is available
-    if (!WEATHER_API_KEY) {
-      console.error('🌤️ WeatherService: API key not configured')
-      throw new Error('Weather API key is not configured')
-    }
-    
-    console.log('🌤️ WeatherService: API key available:', WEATHER_API_KEY ? 'Yes' : 'No')
-    
     // Validate coordinates
     if (typeof lat !== 'number' || isNaN(lat) || typeof lon !== 'number' || isNaN(lon)) {
       console.error('🌤️ WeatherService: Invalid coordinates:', { lat, lon })
       throw new Error('Invalid coordinates provided')
     }
-    
+
     const cacheKey = this.generateCacheKey(lat, lon)
     const cached = this.cache.get(cacheKey)
 
@@ -139,206 +94,346 @@ class WeatherService {
     }
 
     try {
-      console.log('🌤️ WeatherService: Making API calls to OpenWeatherMap...')
-      
-      // Fetch current weather and 5-day forecast
-      const [currentWeather, forecast] = await Promise.all([
-        this.fetchWithRetry(`${BASE_URL}/weather?lat=${lat}&lon=${lon}&appid=${WEATHER_API_KEY}&units=metric`),
-        this.fetchWithRetry(`${BASE_URL}/forecast?lat=${lat}&lon=${lon}&appid=${WEATHER_API_KEY}&units=metric&cnt=40`)
-      ])
-
-      console.log('🌤️ WeatherService: API response received:', {
-        currentTemp: currentWeather?.main?.temp,
-        currentCondition: currentWeather?.weather?.[0]?.description,
-        forecastCount: forecast?.list?.length
-      })
+      const snapshot = await this.provider.getWeather(lat, lon)
 
-      // Process and combine the data
-      const weatherResponse: WeatherResponse = {
-        current: currentWeather,
-        forecast: forecast.list,
-        alerts: currentWeather.alerts
-      }
+      console.log('🌤️ WeatherService: Weather received:', {
+        provider: snapshot.provider,
+        currentTemp: snapshot.current.temp,
+        currentCondition: snapshot.current.description,
+        forecastCount: snapshot.forecast.hourly.length
+      })
 
       // Cache the result
       this.cache.set(cacheKey, {
-        data: weatherResponse,
+        data: snapshot,
         timestamp: Date.now()
       })
 
-      console.log('🌤️ WeatherService: Data cached successfully')
-      return weatherResponse
+      return snapshot
     } catch (error) {
       console.error('🌤️ WeatherService: Error fetching weather data:', error)
       throw new Error('Failed to fetch weather data')
     }
   }
 
-  async getWeatherConditions(lat: number, lon: number): Promise<{
-    temp: number
-    condition: string
-    description: string
-    clouds: number
-    visibility: number
-    humidity: number
-    windSpeed: number
-    uvIndex: number
-    sunrise: Date
-    sunset: Date
-  }> {
+  async getWeatherConditions(lat: number, lon: number): Promise<WeatherData> {
     try {
-      console.log('🌤️ WeatherService: getWeatherConditions called with coordinates:', { lat, lon })
-      
-      // Check if API key is available
-      if (!WEATHER_API_KEY) {
-        throw new Error('Weather API key is not configured')
-      }
-      
-      // Validate coordinates
-      if (typeof lat !== 'number' || isNaN(lat) || typeof lon !== 'number' || isNaN(lon)) {
-        throw new Error('Invalid coordinates provided')
-      }
-      
-      const weather = await this.getWeatherData(lat, lon)
-      const current = weather.current
-
-      console.log('🌤️ WeatherService: Raw weather data:', {
-        temp: current.main?.temp,
-        condition: current.weather?.[0]?.main,
-        description: current.weather?.[0]?.description,
-        clouds: current.clouds?.all,
-        visibility: current.visibility,
-        humidity: current.main?.humidity,
-        windSpeed: current.wind?.speed,
-        uvIndex: current.uvi
+      const weather = await this.getWeather(lat, lon)
+      return weather.current
+    } catch (error) {
+      console.error('🌤️ WeatherService: Error getting weather conditions:', error)
+      throw new Error('Failed to get weather conditions')
+    }
+  }
+
+  async getForecast(lat: number, lon: number): Promise<WeatherForecast> {
+    const weather = await this.getWeather(lat, lon)
+    return weather.forecast
+  }
+
+  /**
+   * Air temperature (°C) and pressure (hPa) at the location, for refraction corrections. With a
+   * `time`, from the forecast entry closest to it; current conditions when the forecast doesn't reach.
+   * Pressure is measured at the ground where the provider reports it, sea-level pressure otherwise.
+   */
+  async getAtmosphere(lat: number, lon: number, time?: Date): Promise<{ temperature: number; pressure: number }> {
+    const weather = await this.getWeather(lat, lon)
+    const { entries, step } = this.getForecastEntries(weather)
+    const conditions = (time && this.findClosestEntry(entries, time.getTime(), step)) || weather.current
+    const pressure = conditions.stationPressure ?? conditions.pressure
+
+    if (typeof conditions.temp !== 'number' || typeof pressure !== 'number') {
+      throw new Error('Weather data has no temperature or pressure')
+    }
+
+    return {
+      temperature: conditions.temp,
+      pressure
+    }
+  }
+
+  /**
+   * Score every golden and blue hour of a day from the forecast entry closest to the middle of
+   * that window, so an evening window is judged by the evening's weather rather than the morning's.
+   * Windows outside the forecast range come back without an entry or score.
+   */
+  async getWindowForecasts(
+    lat: number,
+    lon: number,
+    date: DayInput = sunCalculator.now(),
+    options: SunCalculationOptions = {}
+  ): Promise<ShootingWindowForecast[]> {
+    const weather = await this.getWeather(lat, lon)
+    const { entries, step } = this.getForecastEntries(weather)
+    const golden = sunCalculator.getGoldenHourPeriods(date, lat, lon, options)
+    const blue = sunCalculator.getBlueHourPeriods(date, lat, lon, options)
+
+    const periods = [
+      { kind: 'golden' as const, type: 'morning' as const, period: golden.morning },
+      { kind: 'golden' as const, type: 'evening' as const, period: golden.evening },
+      { kind: 'blue' as const, type: 'morning' as const, period: blue.morning },
+      { kind: 'blue' as const, type: 'evening' as const, period: blue.evening }
+    ]
+
+    return periods
+      .flatMap(({ kind, type, period }) => period ? [{ kind, type, start: period.start, end: period.end }] : [])
+      .sort((a, b) => a.start.getTime() - b.start.getTime())
+      .map(window => {
+        const middle = (window.start.getTime() + window.end.getTime()) / 2
+        const entry = this.findClosestEntry(entries, middle, step)
+
+        if (!entry) {
+          return { ...window, score: null, quality: null, recommendations: [], forecast: null, leadTime: null, offset: null }
+        }
+
+        const scores = this.scoreConditions(entry)
+        const score = window.kind === 'golden' ? scores.goldenHourScore : scores.blueHourScore
+
+        return {
+          ...window,
+          score,
+          quality: this.getQuality(score),
+          recommendations: scores.recommendations,
+          forecast: entry,
+          leadTime: Math.max(0, Math.round((entry.time!.getTime() - weather.fetchedAt.getTime()) / 360000) / 10),
+          offset: Math.round((entry.time!.getTime() - middle) / 60000)
+        }
       })
+  }
 
-      const processedData = {
-        temp: Math.round(current.main?.temp || 0),
-        condition: current.weather?.[0]?.main || 'Unknown',
-        description: current.weather?.[0]?.description || 'No description',
-        clouds: current.clouds?.all || 0,
-        visibility: (current.visibility || 0) / 1000, // Convert to km
-        humidity: current.main?.humidity || 0,
-        windSpeed: current.wind?.speed || 0,
-        uvIndex: current.uvi || 0,
-        sunrise: new Date((current.sys?.sunrise || 0) * 1000),
-        sunset: new Date((current.sys?.sunset || 0) * 1000)
+  /**
+   * Sunrise and sunset color forecasts for a day, from the weather overhead and toward the sun.
+   * Events outside the forecast range are left out.
+   */
+  async getSkyColor(
+    lat: number,
+    lon: number,
+    date: DayInput = sunCalculator.now(),
+    options: SunCalculationOptions = {}
+  ): Promise<SkyColorForecast[]> {
+    const weather = await this.getWeather(lat, lon)
+    const { entries, step } = this.getForecastEntries(weather)
+    const sunTimes = sunCalculator.getSunTimes(date, lat, lon, options)
+    const forecasts: SkyColorForecast[] = []
+
+    for (const [event, time] of [['sunrise', sunTimes.sunrise], ['sunset', sunTimes.sunset]] as const) {
+      if (!time) continue
+
+      const local = this.findClosestEntry(entries, time.getTime(), step)
+      if (!local) continue
+
+      const sunAzimuth = sunCalculator.getSunPosition(time, lat, lon).azimuth
+      const gap = skyColorPredictor.getSunGapPoint(lat, lon, sunAzimuth)
+      let horizon: WeatherData | null = null
+      try {
+        const gapWeather = this.getForecastEntries(await this.getWeather(gap.lat, gap.lon))
+        horizon = this.findClosestEntry(gapWeather.entries, time.getTime(), gapWeather.step)
+      } catch (error) {
+        console.warn('🌤️ WeatherService: No forecast toward the sun:', error)
       }
 
-      console.log('🌤️ WeatherService: Processed weather conditions:', processedData)
-      return processedData
-    } catch (error) {
-      console.error('🌤️ WeatherService: Error getting weather conditions:', error)
-      throw new Error('Failed to get weather conditions')
+      const since = time.getTime() - RECENT_PRECIPITATION_HOURS * 60 * 60 * 1000
+      const recent = entries.filter(entry => entry.time!.getTime() >= since && entry.time!.getTime() < time.getTime())
+
+      forecasts.push(skyColorPredictor.predict({ event, time, sunAzimuth, local, horizon, recent }))
+    }
+
+    return forecasts
+  }
+
+  /**
+   * Radiation fog likelihood for the morning golden hour of a day, from the forecast for the night
+   * before. Null when the night is outside the forecast range or the sun doesn't rise.
+   */
+  async getFogForecast(
+    lat: number,
+    lon: number,
+    date: DayInput = sunCalculator.now(),
+    options: SunCalculationOptions = {}
+  ): Promise<FogForecast | null> {
+    const { morning } = sunCalculator.getGoldenHourPeriods(date, lat, lon, options)
+    const target = morning
+      ? new Date((morning.start.getTime() + morning.end.getTime()) / 2)
+      : sunCalculator.getSunTimes(date, lat, lon, options).sunrise
+
+    if (!target) {
+      return null
     }
+
+    const weather = await this.getWeather(lat, lon)
+    const { entries, step } = this.getForecastEntries(weather)
+    return fogPredictor.predict({ target, entries, fetchedAt: weather.fetchedAt, step })
   }
 
-  async getPhotographyConditions(lat: number, lon: number): Promise<{
+  /**
+   * Photography quality for a day's next golden and blue hour, each scored from the forecast for
+   * its own time. Falls back to current conditions when the day is beyond the forecast.
+   * Throws when the provider fails, so callers can tell an outage from a middling forecast.
+   */
+  async getPhotographyConditions(
+    lat: number,
+    lon: number,
+    date: DayInput = sunCalculator.now(),
+    options: SunCalculationOptions = {}
+  ): Promise<{
     goldenHourQuality: 'excellent' | 'good' | 'fair' | 'poor'
     blueHourQuality: 'excellent' | 'good' | 'fair' | 'poor'
     overallScore: number
     recommendations: string[]
+    windows: ShootingWindowForecast[]
+    skyColor: SkyColorForecast | null // the day's next sunrise or sunset still ahead, or its last
   }> {
-    try {
-      const conditions = await this.getWeatherConditions(lat, lon)
-      
-      let goldenHourScore = 100
-      let blueHourScore = 100
-      const recommendations: string[] = []
-
-      // Cloud cover assessment
-      if (conditions.clouds > 75) {
-        goldenHourScore -= 40
-        blueHourScore -= 30
-        recommendations.push("Heavy cloud cover may reduce golden hour intensity")
-      } else if (conditions.clouds > 50) {
-        goldenHourScore -= 20
-        blueHourScore -= 15
-        recommendations.push("Moderate clouds may create interesting sky patterns")
-      } else if (conditions.clouds > 25) {
-        goldenHourScore -= 10
-        blueHourScore -= 5
-        recommendations.push("Light cloud cover can enhance golden hour colors")
-      }
+    const windows = await this.getWindowForecasts(lat, lon, date, options)
+    const skyColors = await this.getSkyColor(lat, lon, date, options)
+    const now = sunCalculator.now().getTime()
+
+    // The window still ahead (or the day's last one) that the forecast covers
+    const pick = (kind: ShootingWindowForecast['kind']) => {
+      const scored = windows.filter(window => window.kind === kind && window.score !== null)
+      return scored.find(window => window.end.getTime() > now) ?? scored[scored.length - 1]
+    }
+    const golden = pick('golden')
+    const blue = pick('blue')
+
+    const fallback = !golden || !blue
+      ? this.scoreConditions(await this.getWeatherConditions(lat, lon))
+      : null
+    const goldenHourScore = golden?.score ?? fallback!.goldenHourScore
+    const blueHourScore = blue?.score ?? fallback!.blueHourScore
+    const recommendations = [...new Set([
+      ...(golden?.recommendations ?? fallback!.recommendations),
+      ...(blue?.recommendations ?? [])
+    ])]
+
+    return {
+      goldenHourQuality: this.getQuality(goldenHourScore),
+      blueHourQuality: this.getQuality(blueHourScore),
+      overallScore: Math.round((goldenHourScore + blueHourScore) / 2),
+      recommendations,
+      windows,
+      skyColor: skyColors.find(forecast => forecast.time.getTime() > now) ?? skyColors[skyColors.length - 1] ?? null
+    }
+  }
 
-      // Visibility assessment
-      if (conditions.visibility < 5) {
-        goldenHourScore -= 30
-        blueHourScore -= 25
-        recommendations.push("Poor visibility may affect image clarity")
-      } else if (conditions.visibility < 10) {
-        goldenHourScore -= 15
-        blueHourScore -= 10
-        recommendations.push("Reduced visibility may impact distant subjects")
-      }
+  /**
+   * Current conditions and forecast entries as one timeline, with the spacing between entries
+   */
+  private getForecastEntries(weather: WeatherSnapshot): { entries: WeatherData[]; step: number } {
+    const { hourly } = weather.forecast
+    const step = hourly.length > 1 && hourly[0].time && hourly[1].time
+      ? hourly[1].time.getTime() - hourly[0].time.getTime()
+      : FORECAST_STEP_MS
+
+    return {
+      entries: [weather.current, ...hourly].filter(entry => entry.time),
+      step
+    }
+  }
 
-      // Wind assessment
-      if (conditions.windSpeed > 15) {
-        goldenHourScore -= 20
-        blueHourScore -= 15
-        recommendations.push("Strong winds may cause camera shake")
-      } else if (conditions.windSpeed > 8) {
-        goldenHourScore -= 10
-        blueHourScore -= 5
-        recommendations.push("Moderate winds - consider using tripod")
+  /**
+   * The entry nearest `time`, or null when the nearest is more than one forecast step away
+   */
+  private findClosestEntry(entries: WeatherData[], time: number, step: number): WeatherData | null {
+    let closest: WeatherData | null = null
+    for (const entry of entries) {
+      const distance = Math.abs(entry.time!.getTime() - time)
+      if (distance <= step && (!closest || distance < Math.abs(closest.time!.getTime() - time))) {
+        closest = entry
       }
+    }
+    return closest
+  }
 
-      // Humidity assessment
-      if (conditions.humidity > 80) {
-        goldenHourScore -= 15
-        blueHourScore -= 10
-        recommendations.push("High humidity may cause haze")
-      } else if (conditions.humidity > 60) {
-        goldenHourScore -= 5
-        blueHourScore -= 5
-        recommendations.push("Moderate humidity may add atmospheric effect")
-      }
+  /**
+   * Golden and blue hour scores (0-100) for one set of conditions
+   */
+  private scoreConditions(conditions: WeatherData): {
+    goldenHourScore: number
+    blueHourScore: number
+    recommendations: string[]
+  } {
+    let goldenHourScore = 100
+    let blueHourScore = 100
+    const recommendations: string[] = []
+
+    // Cloud cover assessment
+    if (conditions.clouds > 75) {
+      goldenHourScore -= 40
+      blueHourScore -= 30
+      recommendations.push("Heavy cloud cover may reduce golden hour intensity")
+    } else if (conditions.clouds > 50) {
+      goldenHourScore -= 20
+      blueHourScore -= 15
+      recommendations.push("Moderate clouds may create interesting sky patterns")
+    } else if (conditions.clouds > 25) {
+      goldenHourScore -= 10
+      blueHourScore -= 5
+      recommendations.push("Light cloud cover can enhance golden hour colors")
+    }
 
-      // Weather condition assessment
-      const condition = conditions.condition.toLowerCase()
-      if (condition.includes('rain') || condition.includes('drizzle')) {
-        goldenHourScore -= 50
-        blueHourScore -= 40
-        recommendations.push("Rain expected - consider protective gear")
-      } else if (condition.includes('snow')) {
-        goldenHourScore -= 30
-        blueHourScore -= 25
-        recommendations.push("Snow may create unique lighting opportunities")
-      } else if (condition.includes('fog') || condition.includes('mist')) {
-        goldenHourScore -= 25
-        blueHourScore -= 20
-        recommendations.push("Fog conditions may create atmospheric effects")
-      } else if (condition.includes('clear')) {
-        recommendations.push("Clear skies expected for optimal golden hour")
-      }
+    // Visibility assessment
+    if (conditions.visibility < 5) {
+      goldenHourScore -= 30
+      blueHourScore -= 25
+      recommendations.push("Poor visibility may affect image clarity")
+    } else if (conditions.visibility < 10) {
+      goldenHourScore -= 15
+      blueHourScore -= 10
+      recommendations.push("Reduced visibility may impact distant subjects")
+    }
 
-      // Ensure scores don't go below 0
-      goldenHourScore = Math.max(0, goldenHourScore)
-      blueHourScore = Math.max(0, blueHourScore)
+    // Wind assessment
+    if (conditions.windSpeed > 15) {
+      goldenHourScore -= 20
+      blueHourScore -= 15
+      recommendations.push("Strong winds may cause camera shake")
+    } else if (conditions.windSpeed > 8) {
+      goldenHourScore -= 10
+      blueHourScore -= 5
+      recommendations.push("Moderate winds - consider using tripod")
+    }
 
-      const getQuality = (score: number): 'excellent' | 'good' | 'fair' | 'poor' => {
-        if (score >= 80) return 'excellent'
-        if (score >= 60) return 'good'
-        if (score >= 40) return 'fair'
-        return 'poor'
-      }
+    // Humidity assessment
+    if (conditions.humidity > 80) {
+      goldenHourScore -= 15
+      blueHourScore -= 10
+      recommendations.push("High humidity may cause haze")
+    } else if (conditions.humidity > 60) {
+      goldenHourScore -= 5
+      blueHourScore -= 5
+      recommendations.push("Moderate humidity may add atmospheric effect")
+    }
 
-      return {
-        goldenHourQuality: getQuality(goldenHourScore),
-        blueHourQuality: getQuality(blueHourScore),
-        overallScore: Math.round((goldenHourScore + blueHourScore) / 2),
-        recommendations
-      }
-    } catch (error) {
-      console.error('Error getting photography conditions:', error)
-      return {
-        goldenHourQuality: 'fair',
-        blueHourQuality: 'fair',
-        overallScore: 50,
-        recommendations: ['Unable to assess weather conditions']
-      }
+    // Weather condition assessment
+    const condition = conditions.condition.toLowerCase()
+    if (condition.includes('rain') || condition.includes('drizzle')) {
+      goldenHourScore -= 50
+      blueHourScore -= 40
+      recommendations.push("Rain expected - consider protective gear")
+    } else if (condition.includes('snow')) {
+      goldenHourScore -= 30
+      blueHourScore -= 25
+      recommendations.push("Snow may create unique lighting opportunities")
+    } else if (condition.includes('fog') || condition.includes('mist')) {
+      goldenHourScore -= 25
+      blueHourScore -= 20
+      recommendations.push("Fog conditions may create atmospheric effects")
+    } else if (condition.includes('clear')) {
+      recommendations.push("Clear skies expected for optimal golden hour")
     }
+
+    // Ensure scores don't go below 0
+    goldenHourScore = Math.max(0, goldenHourScore)
+    blueHourScore = Math.max(0, blueHourScore)
+
+    return { goldenHourScore, blueHourScore, recommendations }
+  }
+
+  private getQuality(score: number): 'excellent' | 'good' | 'fair' | 'poor' {
+    if (score >= 80) return 'excellent'
+    if (score >= 60) return 'good'
+    if (score >= 40) return 'fair'
+    return 'poor'
   }
 
   clearCache() {
@@ -347,4 +442,5 @@ class WeatherService {
 }
 
 export const weatherService = new WeatherService()
-export type { OpenWeatherMapResponse, WeatherForecast, WeatherResponse }
\ No newline at end of file
+export { WeatherService, createWeatherProvider }
+export type { ShootingWindowForecast }
\ No newline at end of file
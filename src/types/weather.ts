@@ -9,6 +9,30 @@ export interface WeatherData {
   uvIndex: number
   sunrise: Date
   sunset: Date
+  time?: Date // when the reading was taken or the forecast applies
+  pressure?: number // hPa, reduced to sea level
+  stationPressure?: number // hPa at ground level, when the provider reports it
+  precipitationProbability?: number // 0-1, forecasts only
+  conditionCode?: number // OpenWeatherMap condition id; other providers map onto the same codes
+  cloudLayers?: CloudLayers // only from providers that split cover by height
+  dewPoint?: number // °C, when the provider reports it
+}
+
+// Cloud cover in percent per layer: low below ~2 km, mid 2-6 km, high above
+export interface CloudLayers {
+  low: number
+  mid: number
+  high: number
+}
+
+export type WeatherProviderName = 'openweathermap' | 'open-meteo' | 'fixture'
+
+// Everything a provider returns for one location, already normalized
+export interface WeatherSnapshot {
+  provider: WeatherProviderName
+  fetchedAt: Date
+  current: WeatherData
+  forecast: WeatherForecast
 }
 
 export interface PhotographyConditions {